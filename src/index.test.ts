@@ -1,7 +1,19 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
 import mongoose, { Schema, model, Model } from 'mongoose'
-import { MongoMemoryServer } from 'mongodb-memory-server'
-import Paranoia, { type ParanoiaDocument, type ParanoiaQueryHelpers, type ParanoiaStatics } from './index.js'
+import { MongoMemoryServer, MongoMemoryReplSet } from 'mongodb-memory-server'
+import Paranoia, {
+  ParanoiaError,
+  migrateParanoia,
+  migrateUniqueIndexes,
+  runWithActor,
+  runWithActiveArchive,
+  getCurrentActor,
+  type ParanoiaBulkWriteOperation,
+  type ParanoiaDocument,
+  type ParanoiaHookContext,
+  type ParanoiaQueryHelpers,
+  type ParanoiaStatics,
+} from './index.js'
 
 let mongoServer: MongoMemoryServer
 
@@ -172,6 +184,109 @@ describe('Paranoia Plugin - activeArchive: "Default"', () => {
   })
 })
 
+describe('Paranoia Plugin - Default Filter Coverage', () => {
+  beforeEach(async () => {
+    await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+    await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com', deleted: true })
+  })
+
+  it('should filter deleted records on distinct()', async () => {
+    const emails = await UserDefault.distinct('email')
+    expect(emails).toEqual(['active@test.com'])
+  })
+
+  it('should count only active records on estimatedDocumentCount()', async () => {
+    expect(await UserDefault.estimatedDocumentCount()).toBe(1)
+  })
+
+  it('should count all records on estimatedDocumentCount().withDeleted()', async () => {
+    expect(await UserDefault.estimatedDocumentCount().withDeleted()).toBe(2)
+  })
+
+  it('should not update deleted records on updateOne()', async () => {
+    const result = await UserDefault.updateOne({ email: 'deleted@test.com' }, { name: 'Changed' })
+    expect(result.matchedCount).toBe(0)
+  })
+
+  it('should not update deleted records on updateMany()', async () => {
+    const result = await UserDefault.updateMany({}, { name: 'Changed' })
+    expect(result.modifiedCount).toBe(1)
+
+    const deletedUser = await UserDefault.findOne({ email: 'deleted@test.com' }).withDeleted()
+    expect(deletedUser?.name).toBe('Deleted')
+  })
+
+  it('should update deleted records with withDeleted()', async () => {
+    const result = await UserDefault.updateMany({}, { name: 'Changed' }).withDeleted()
+    expect(result.modifiedCount).toBe(2)
+  })
+
+  it('should not replace deleted records on replaceOne()', async () => {
+    const result = await UserDefault.replaceOne({ email: 'deleted@test.com' }, { name: 'Replaced' })
+    expect(result.matchedCount).toBe(0)
+  })
+
+  it('should not replace deleted records on findOneAndReplace()', async () => {
+    const result = await UserDefault.findOneAndReplace({ email: 'deleted@test.com' }, { name: 'Replaced' })
+    expect(result).toBeNull()
+  })
+})
+
+describe('Paranoia Plugin - Aggregate', () => {
+  it('should include deleted records with withDeleted()', async () => {
+    await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+    await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com', deleted: true })
+
+    const result = await UserDefault.aggregate([{ $count: 'total' }]).withDeleted()
+    expect(result[0].total).toBe(2)
+  })
+
+  it('should only return deleted records with onlyDeleted()', async () => {
+    await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+    await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com', deleted: true })
+
+    const result = await UserDefault.aggregate([{ $project: { name: 1 } }]).onlyDeleted()
+    expect(result).toHaveLength(1)
+    expect(result[0].name).toBe('Deleted')
+  })
+
+  it('should support onlyDeleted() in Scope mode', async () => {
+    await UserScope.create({ name: 'Active', email: 'active@test.com' })
+    await UserScope.create({ name: 'Deleted', email: 'deleted@test.com', deleted: true })
+
+    const result = await UserScope.aggregate([{ $count: 'total' }]).onlyDeleted()
+    expect(result[0].total).toBe(1)
+  })
+
+  it('should filter after a leading $geoNear stage', async () => {
+    if (mongoose.models.Place) delete mongoose.models.Place
+    const schema = new Schema({
+      name: String,
+      location: { type: { type: String }, coordinates: [Number] },
+    })
+    schema.index({ location: '2dsphere' })
+    schema.plugin(Paranoia)
+    const Place: Model<any> = model('Place', schema)
+    await Place.init()
+
+    await Place.create({ name: 'Open', location: { type: 'Point', coordinates: [17.1, 48.1] } })
+    await Place.create({ name: 'Closed', location: { type: 'Point', coordinates: [17.1, 48.1] }, deleted: true })
+
+    const result = await Place.aggregate([
+      { $geoNear: { near: { type: 'Point', coordinates: [17.1, 48.1] }, distanceField: 'distance' } },
+    ])
+    expect(result).toHaveLength(1)
+    expect(result[0].name).toBe('Open')
+  })
+
+  it('should leave pipelines starting with $collStats untouched', async () => {
+    await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+
+    const result = await UserDefault.aggregate([{ $collStats: { count: {} } }])
+    expect(result[0].count).toBe(1)
+  })
+})
+
 describe('Paranoia Plugin - activeArchive: "Scope"', () => {
   it('should return all records by default on find()', async () => {
     await UserScope.create({ name: 'Active', email: 'active@test.com' })
@@ -260,6 +375,63 @@ describe('Paranoia Plugin - activeArchive: "All"', () => {
   })
 })
 
+describe('Paranoia Plugin - activeArchive Override', () => {
+  beforeEach(async () => {
+    await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+    await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com', deleted: true })
+    await UserAll.create({ name: 'Active', email: 'active@test.com' })
+    await UserAll.create({ name: 'Deleted', email: 'deleted@test.com', deleted: true })
+  })
+
+  it('should return all records with the paranoia query option', async () => {
+    const users = await UserDefault.find().setOptions({ paranoia: 'All' })
+    const count = await UserDefault.countDocuments({}, { paranoia: 'All' })
+
+    expect(users).toHaveLength(2)
+    expect(count).toBe(2)
+    expect(await UserDefault.find()).toHaveLength(1)
+  })
+
+  it('should filter deleted records when a query asks for Default mode', async () => {
+    const users = await UserAll.find().setOptions({ paranoia: 'Default' })
+    const count = await UserAll.estimatedDocumentCount().setOptions({ paranoia: 'Default' })
+
+    expect(users).toHaveLength(1)
+    expect(users[0]!.name).toBe('Active')
+    expect(count).toBe(1)
+  })
+
+  it('should respect the paranoia option on aggregate()', async () => {
+    const result = await UserDefault.aggregate([{ $count: 'total' }]).option({ paranoia: 'All' })
+
+    expect(result[0].total).toBe(2)
+  })
+
+  it('should not pass the paranoia option on to the driver', async () => {
+    const query = UserDefault.find().setOptions({ paranoia: 'All' })
+    const aggregate = UserDefault.aggregate([{ $count: 'total' }]).option({ paranoia: 'All' })
+
+    expect(await query).toHaveLength(2)
+    expect((await aggregate)[0].total).toBe(2)
+    expect(query.getOptions().paranoia).toBeUndefined()
+    expect(aggregate.options.paranoia).toBeUndefined()
+  })
+
+  it('should use the mode set with runWithActiveArchive', async () => {
+    await runWithActiveArchive('All', async () => {
+      expect(await UserDefault.find()).toHaveLength(2)
+      expect((await UserDefault.aggregate([{ $count: 'total' }]))[0].total).toBe(2)
+      // A query's own option still wins
+      expect(await UserDefault.find().setOptions({ paranoia: 'Default' })).toHaveLength(1)
+    })
+
+    await runWithActiveArchive('Default', async () => {
+      expect(await UserAll.find()).toHaveLength(1)
+    })
+    expect(await UserAll.find()).toHaveLength(2)
+  })
+})
+
 describe('Paranoia Plugin - Soft Delete Operations', () => {
   it('should soft delete with deleteOne()', async () => {
     const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
@@ -301,6 +473,63 @@ describe('Paranoia Plugin - Soft Delete Operations', () => {
   })
 })
 
+describe('Paranoia Plugin - Soft Delete Paths', () => {
+  it('should soft delete with document deleteOne()', async () => {
+    const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+
+    await user.deleteOne()
+
+    expect(user.deleted).toBe(true)
+    const deletedUser = await UserDefault.findById(user._id).withDeleted()
+    expect(deletedUser?.deleted).toBe(true)
+    expect(deletedUser?.deletedAt).toBeInstanceOf(Date)
+  })
+
+  it('should soft delete with query deleteOne()', async () => {
+    await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await UserDefault.create({ name: 'Jane', email: 'jane@test.com' })
+
+    await UserDefault.find({ email: 'john@test.com' }).deleteOne()
+
+    const users = await UserDefault.find().withDeleted()
+    expect(users).toHaveLength(2)
+    expect(users.find((u: IUser) => u.email === 'john@test.com')?.deleted).toBe(true)
+    expect(users.find((u: IUser) => u.email === 'jane@test.com')?.deleted).toBe(false)
+  })
+
+  it('should soft delete with query deleteMany()', async () => {
+    await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await UserDefault.create({ name: 'Jane', email: 'jane@test.com' })
+
+    await UserDefault.find({ name: /^J/ }).deleteMany()
+
+    const users = await UserDefault.find().withDeleted()
+    expect(users).toHaveLength(2)
+    expect(users.every((u: IUser) => u.deleted === true)).toBe(true)
+  })
+
+  it('should soft delete with query findOneAndDelete() and return the original document', async () => {
+    const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+
+    const result = await UserDefault.where({ _id: user._id }).findOneAndDelete()
+
+    expect(result?.deleted).toBe(false)
+    const deletedUser = await UserDefault.findById(user._id).withDeleted()
+    expect(deletedUser?.deleted).toBe(true)
+  })
+
+  it('should keep hard-deleted count at zero for every path', async () => {
+    const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await UserDefault.create({ name: 'Jane', email: 'jane@test.com' })
+
+    await user.deleteOne()
+    await UserDefault.deleteMany({})
+
+    const raw = await UserDefault.collection.countDocuments({})
+    expect(raw).toBe(2)
+  })
+})
+
 describe('Paranoia Plugin - Restore Functionality', () => {
   it('should restore a soft-deleted document with instance method', async () => {
     const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
@@ -333,6 +562,107 @@ describe('Paranoia Plugin - Restore Functionality', () => {
   })
 })
 
+describe('Paranoia Plugin - Hard Delete', () => {
+  it('should permanently remove with forceDeleteOne()', async () => {
+    const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await UserDefault.create({ name: 'Jane', email: 'jane@test.com' })
+
+    await UserDefault.forceDeleteOne({ _id: user._id })
+
+    expect(await UserDefault.collection.countDocuments({})).toBe(1)
+  })
+
+  it('should permanently remove with forceDeleteMany()', async () => {
+    await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await UserDefault.create({ name: 'Jane', email: 'jane@test.com', deleted: true })
+
+    const result = await UserDefault.forceDeleteMany({})
+
+    expect(result.deletedCount).toBe(2)
+    expect(await UserDefault.collection.countDocuments({})).toBe(0)
+  })
+
+  it('should permanently remove with document forceDelete()', async () => {
+    const user = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+
+    await user.forceDelete()
+
+    expect(user.$isDeleted()).toBe(true)
+    expect(await UserDefault.collection.countDocuments({})).toBe(0)
+  })
+
+  it('should purge all soft-deleted documents with purgeDeleted()', async () => {
+    await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+    await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com' })
+    await UserDefault.deleteOne({ email: 'deleted@test.com' })
+
+    await UserDefault.purgeDeleted()
+
+    const users = await UserDefault.find().withDeleted()
+    expect(users).toHaveLength(1)
+    expect(users[0]!.name).toBe('Active')
+  })
+
+  it('should only purge documents deleted before olderThan', async () => {
+    const old = await UserDefault.create({ name: 'Old', email: 'old@test.com' })
+    const recent = await UserDefault.create({ name: 'Recent', email: 'recent@test.com' })
+    await UserDefault.updateOne({ _id: old._id }, { deleted: true, deletedAt: new Date('2020-01-01') })
+    await UserDefault.deleteOne({ _id: recent._id })
+
+    await UserDefault.purgeDeleted({ olderThan: new Date('2021-01-01') })
+
+    const users = await UserDefault.find().withDeleted()
+    expect(users).toHaveLength(1)
+    expect(users[0]!.name).toBe('Recent')
+  })
+})
+
+describe('Paranoia Plugin - Retention', () => {
+  it('should add a partial TTL index on deletedAt', () => {
+    const schema = new Schema({ name: String })
+    schema.plugin(Paranoia, { retention: 30 })
+
+    expect(schema.indexes()).toContainEqual([
+      { deletedAt: 1 },
+      { expireAfterSeconds: 30 * 24 * 60 * 60, partialFilterExpression: { deleted: true } },
+    ])
+  })
+
+  it('should use custom field names in the TTL index', () => {
+    const schema = new Schema({ name: String })
+    schema.plugin(Paranoia, { retention: 7, deletedField: 'isDeleted', deletedAtField: 'removedAt' })
+
+    expect(schema.indexes()).toContainEqual([
+      { removedAt: 1 },
+      { expireAfterSeconds: 7 * 24 * 60 * 60, partialFilterExpression: { isDeleted: true } },
+    ])
+  })
+
+  it('should reject retention without deletedAt', () => {
+    const schema = new Schema({ name: String })
+    expect(() => schema.plugin(Paranoia, { retention: 30, deletedAt: false })).toThrow(
+      'deletedAt is required for retention option',
+    )
+  })
+
+  it('should reject a non-positive or non-finite retention', () => {
+    for (const retention of [0, -7, Infinity, NaN]) {
+      expect(() => new Schema({ name: String }).plugin(Paranoia, { retention })).toThrow(
+        'retention option must be a positive number of days',
+      )
+    }
+  })
+
+  it('should accept a corrected plugin call after rejecting retention', () => {
+    const schema = new Schema({ name: String })
+    expect(() => schema.plugin(Paranoia, { retention: 30, deletedAt: false })).toThrow()
+
+    schema.plugin(Paranoia, { retention: 30 })
+
+    expect(schema.path('deletedAt')).toBeDefined()
+  })
+})
+
 describe('Paranoia Plugin - Custom Field Names', () => {
   it('should use custom field names', async () => {
     const schema = new Schema({ name: String })
@@ -376,4 +706,1792 @@ describe('Paranoia Plugin - DeletedBy Field', () => {
 
     delete mongoose.models.UserWithDeletedBy
   })
+
+  it('should reference a custom actor model', () => {
+    const schema = new Schema({ name: String })
+    schema.plugin(Paranoia, { deletedBy: true, restoredBy: true, deletedByRef: 'Account' })
+
+    expect((schema.path('deletedBy') as any).options.ref).toBe('Account')
+    expect((schema.path('restoredBy') as any).options.ref).toBe('Account')
+  })
+
+  it('should reject an unknown deletedByType', () => {
+    const schema = new Schema({ name: String })
+
+    expect(() => schema.plugin(Paranoia, { deletedBy: true, deletedByType: 'Strng' })).toThrow(
+      'Unknown deletedByType "Strng"',
+    )
+    expect(() => schema.plugin(Paranoia, { deletedBy: true, deletedByType: 'toString' })).toThrow(
+      'Unknown deletedByType "toString"',
+    )
+  })
+
+  it('should store numeric actor ids', async () => {
+    const schema = new Schema({ name: String })
+    schema.plugin(Paranoia, { deletedBy: true, deletedByType: 'Number' })
+    const UserWithNumericActor = model('UserWithNumericActor', schema)
+
+    const user = await UserWithNumericActor.create({ name: 'John' })
+    await UserWithNumericActor.deleteOne({ _id: user._id }, { deletedBy: 42 })
+
+    const deletedUser = await UserWithNumericActor.findOne({ _id: user._id }).where('deleted').equals(true)
+    expect(deletedUser?.get('deletedBy')).toBe(42)
+
+    delete mongoose.models.UserWithNumericActor
+  })
+
+  it('should store an embedded actor snapshot', async () => {
+    const schema = new Schema({ name: String })
+    schema.plugin(Paranoia, {
+      deletedBy: true,
+      deletedByType: new Schema({ id: Number, name: String, kind: String }, { _id: false }),
+    })
+    const UserWithActorSnapshot = model('UserWithActorSnapshot', schema)
+
+    const user = await UserWithActorSnapshot.create({ name: 'John' })
+    await UserWithActorSnapshot.deleteOne({ _id: user._id }, { deletedBy: { id: 7, name: 'Jane', kind: 'admin' } })
+
+    const deletedUser = await UserWithActorSnapshot.findOne({ _id: user._id }).where('deleted').equals(true)
+    expect(deletedUser?.get('deletedBy').toObject()).toEqual({ id: 7, name: 'Jane', kind: 'admin' })
+
+    delete mongoose.models.UserWithActorSnapshot
+  })
+
+  it('should populate polymorphic actors through refPath', async () => {
+    const Admin = model('ActorAdmin', new Schema({ name: String }))
+    const schema = new Schema({ name: String })
+    schema.plugin(Paranoia, { deletedBy: true, deletedByRefPath: 'deletedByModel' })
+    const UserWithPolymorphicActor = model<any, Model<any> & ParanoiaStatics>('UserWithPolymorphicActor', schema)
+
+    const admin = await Admin.create({ name: 'Jane' })
+    const user = await UserWithPolymorphicActor.create({ name: 'John' })
+    await UserWithPolymorphicActor.deleteOne({ _id: user._id }, { deletedBy: admin._id, deletedByModel: 'ActorAdmin' })
+
+    const deletedUser = await UserWithPolymorphicActor.findOne({ _id: user._id })
+      .where('deleted')
+      .equals(true)
+      .populate('deletedBy')
+    expect(deletedUser?.get('deletedByModel')).toBe('ActorAdmin')
+    expect(deletedUser?.get('deletedBy.name')).toBe('Jane')
+
+    await UserWithPolymorphicActor.restore({ _id: user._id })
+    const restoredUser = await UserWithPolymorphicActor.findOne({ _id: user._id })
+    expect(restoredUser?.get('deletedByModel')).toBeNull()
+
+    delete mongoose.models.ActorAdmin
+    delete mongoose.models.UserWithPolymorphicActor
+  })
+})
+
+interface IPost extends ParanoiaDocument {
+  title: string
+}
+
+describe('Paranoia Plugin - Deletion Metadata', () => {
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.PostWithMetadata) delete mongoose.models.PostWithMetadata
+
+    const schema = new Schema<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics, {}, ParanoiaQueryHelpers>({
+      title: String,
+    })
+    schema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String', deleteReason: ['spam', 'duplicate'] })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('PostWithMetadata', schema)
+  })
+
+  it('should record deletedBy and deleteReason with deleteOne()', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    await Post.deleteOne({ _id: post._id }, { deletedBy: 'admin', deleteReason: 'spam' })
+
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost?.deletedBy).toBe('admin')
+    expect(deletedPost?.deleteReason).toBe('spam')
+  })
+
+  it('should record deletedBy with deleteMany()', async () => {
+    await Post.create({ title: 'One' })
+    await Post.create({ title: 'Two' })
+
+    await Post.deleteMany({}, { deletedBy: 'admin' })
+
+    const posts = await Post.find().withDeleted()
+    expect(posts.every((p: IPost) => p.deletedBy === 'admin')).toBe(true)
+  })
+
+  it('should record deletedBy with findOneAndDelete() and findByIdAndDelete()', async () => {
+    const first = await Post.create({ title: 'One' })
+    const second = await Post.create({ title: 'Two' })
+
+    await Post.findOneAndDelete({ _id: first._id }, { deletedBy: 'moderator' })
+    await Post.findByIdAndDelete(second._id, { deletedBy: 'owner', deleteReason: 'duplicate' })
+
+    const firstDeleted = await Post.findById(first._id).withDeleted()
+    const secondDeleted = await Post.findById(second._id).withDeleted()
+    expect(firstDeleted?.deletedBy).toBe('moderator')
+    expect(secondDeleted?.deletedBy).toBe('owner')
+    expect(secondDeleted?.deleteReason).toBe('duplicate')
+  })
+
+  it('should record deletedBy with softDelete() instance method', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    await post.softDelete({ deletedBy: 'admin', deleteReason: 'spam' })
+
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost?.deleted).toBe(true)
+    expect(deletedPost?.deletedAt).toBeInstanceOf(Date)
+    expect(deletedPost?.deletedBy).toBe('admin')
+  })
+
+  it('should reject a deleteReason outside the configured enum', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    await expect(post.softDelete({ deleteReason: 'boredom' })).rejects.toThrow()
+  })
+
+  it('should clear deletedBy and deleteReason on restore', async () => {
+    const first = await Post.create({ title: 'One' })
+    const second = await Post.create({ title: 'Two' })
+    await Post.deleteMany({}, { deletedBy: 'admin', deleteReason: 'spam' })
+
+    const deletedFirst = await Post.findById(first._id).withDeleted()
+    await deletedFirst.restore()
+    await Post.restore({ _id: second._id })
+
+    const restored = await Post.find()
+    expect(restored).toHaveLength(2)
+    expect(restored.every((p: IPost) => p.deletedBy === null && p.deleteReason === null)).toBe(true)
+  })
+})
+
+describe('Paranoia Plugin - Ambient Actor', () => {
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.PostWithActor) delete mongoose.models.PostWithActor
+
+    const schema = new Schema<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics, {}, ParanoiaQueryHelpers>({
+      title: String,
+    })
+    schema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String', restoredBy: true })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('PostWithActor', schema)
+  })
+
+  it('should expose the actor inside runWithActor only', async () => {
+    expect(getCurrentActor()).toBeUndefined()
+    await runWithActor('admin', async () => {
+      expect(getCurrentActor()).toBe('admin')
+    })
+    expect(getCurrentActor()).toBeUndefined()
+  })
+
+  it('should fill deletedBy from the ambient actor in delete statics', async () => {
+    const first = await Post.create({ title: 'One' })
+    const second = await Post.create({ title: 'Two' })
+
+    await runWithActor('admin', async () => {
+      await Post.deleteOne({ _id: first._id })
+      await Post.findByIdAndDelete(second._id)
+    })
+
+    const posts = await Post.find().withDeleted()
+    expect(posts.every((p: IPost) => p.deletedBy === 'admin')).toBe(true)
+  })
+
+  it('should fill deletedBy from the ambient actor in softDelete()', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    await runWithActor('admin', () => post.softDelete())
+
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost?.deletedBy).toBe('admin')
+  })
+
+  it('should prefer an explicit actor over the ambient one', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    await runWithActor('admin', () => Post.deleteOne({ _id: post._id }, { deletedBy: 'owner' }))
+
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost?.deletedBy).toBe('owner')
+  })
+
+  it('should fill restoredBy from the ambient actor on restore', async () => {
+    const first = await Post.create({ title: 'One' })
+    const second = await Post.create({ title: 'Two' })
+    await Post.deleteMany({}, { deletedBy: 'admin' })
+
+    await runWithActor('moderator', async () => {
+      const deletedFirst = await Post.findById(first._id).withDeleted()
+      await deletedFirst.restore()
+    })
+    await Post.restore({ _id: second._id }, { restoredBy: 'owner' })
+
+    const firstRestored = await Post.findById(first._id)
+    const secondRestored = await Post.findById(second._id)
+    expect(firstRestored?.restoredBy).toBe('moderator')
+    expect(firstRestored?.deletedBy).toBeNull()
+    expect(secondRestored?.restoredBy).toBe('owner')
+  })
+
+  it('should use a custom getActor resolver', async () => {
+    if (mongoose.models.PostWithResolver) delete mongoose.models.PostWithResolver
+    const schema = new Schema({ title: String })
+    schema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String', getActor: () => 'system' })
+    const PostWithResolver = model('PostWithResolver', schema)
+
+    const post = await PostWithResolver.create({ title: 'Hello' })
+    await PostWithResolver.deleteOne({ _id: post._id })
+
+    const deletedPost = await PostWithResolver.findOne({ _id: post._id }).where('deleted').equals(true)
+    expect(deletedPost?.get('deletedBy')).toBe('system')
+  })
+})
+
+describe('Paranoia Plugin - Cascade', () => {
+  let Project: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+  let Task: Model<any, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.CascadeProject) delete mongoose.models.CascadeProject
+    if (mongoose.models.CascadeTask) delete mongoose.models.CascadeTask
+    if (mongoose.models.CascadeComment) delete mongoose.models.CascadeComment
+
+    const commentSchema = new Schema({ task: Schema.Types.ObjectId, body: String })
+    commentSchema.plugin(Paranoia)
+    model('CascadeComment', commentSchema)
+
+    const taskSchema = new Schema({ project: Schema.Types.ObjectId, title: String })
+    taskSchema.plugin(Paranoia, { cascade: [{ model: 'CascadeComment', foreignField: 'task' }] })
+    Task = model('CascadeTask', taskSchema) as any
+
+    const projectSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({ title: String })
+    projectSchema.plugin(Paranoia, { cascade: [{ model: 'CascadeTask', foreignField: 'project' }] })
+    Project = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('CascadeProject', projectSchema)
+  })
+
+  it('should soft delete children with the parent batch', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    const task = await Task.create({ project: project._id, title: 'Launch' })
+    await mongoose.models.CascadeComment!.create({ task: task._id, body: 'Go' })
+
+    await Project.deleteOne({ _id: project._id })
+
+    const deletedProject = await Project.findById(project._id).withDeleted()
+    const tasks = await Task.find().withDeleted()
+    const comments = await mongoose.models.CascadeComment!.find({ deleted: true })
+    expect(deletedProject?.deletionBatch).toBeTypeOf('string')
+    expect(tasks).toHaveLength(1)
+    expect(tasks[0].deleted).toBe(true)
+    expect(tasks[0].deletionBatch).toBe(deletedProject?.deletionBatch)
+    expect(comments).toHaveLength(1)
+    expect(comments[0]!.get('deletionBatch')).toBe(deletedProject?.deletionBatch)
+  })
+
+  it('should only store a batch on models with cascade or when one is passed', async () => {
+    const Comment = mongoose.models.CascadeComment!
+    const [first, second] = await Comment.create([{ body: 'First' }, { body: 'Second' }])
+
+    await Comment.deleteOne({ _id: first!._id })
+    await Comment.deleteOne({ _id: second!._id }, { deletionBatch: 'manual' })
+
+    const comments = await Comment.find({ deleted: true }).sort({ body: 1 }).lean()
+    expect(Comment.schema.path('deletionBatch')).toBeUndefined()
+    expect(comments.map((comment: any) => comment.deletionBatch)).toEqual([undefined, 'manual'])
+  })
+
+  it('should cascade from softDelete() instance method', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    await Task.create({ project: project._id, title: 'Launch' })
+
+    await project.softDelete()
+
+    expect(await Task.countDocuments()).toBe(0)
+  })
+
+  it('should only restore children deleted in the same batch', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    const earlier = await Task.create({ project: project._id, title: 'Cancelled' })
+    await Task.create({ project: project._id, title: 'Launch' })
+    await Task.deleteOne({ _id: earlier._id })
+
+    await Project.deleteMany({})
+    await Project.restore({ _id: project._id })
+
+    const activeTasks = await Task.find()
+    expect(activeTasks).toHaveLength(1)
+    expect(activeTasks[0].title).toBe('Launch')
+    expect(activeTasks[0].deletionBatch).toBeNull()
+  })
+
+  it('should restore children with the instance method', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    const task = await Task.create({ project: project._id, title: 'Launch' })
+    await mongoose.models.CascadeComment!.create({ task: task._id, body: 'Go' })
+    await Project.findByIdAndDelete(project._id)
+
+    const deletedProject = await Project.findById(project._id).withDeleted()
+    await deletedProject.restore()
+
+    expect(await Task.countDocuments()).toBe(1)
+    expect(await mongoose.models.CascadeComment!.countDocuments()).toBe(1)
+  })
+})
+
+describe('Paranoia Plugin - Populate and $lookup', () => {
+  let Article: Model<any, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.Article) delete mongoose.models.Article
+
+    const schema = new Schema({ title: String, author: { type: Schema.Types.ObjectId, ref: 'UserDefault' } })
+    schema.plugin(Paranoia, { activeArchive: 'Scope', lookup: true })
+    Article = model('Article', schema) as any
+  })
+
+  it('should not populate deleted documents', async () => {
+    const author = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await Article.create({ title: 'Hello', author: author._id })
+    await UserDefault.deleteOne({ _id: author._id })
+
+    const article = await Article.findOne().populate('author')
+    expect(article.author).toBeNull()
+  })
+
+  it('should populate deleted documents with the withDeleted option', async () => {
+    const author = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await Article.create({ title: 'Hello', author: author._id })
+    await UserDefault.deleteOne({ _id: author._id })
+
+    const article = await Article.findOne().populate({ path: 'author', options: { withDeleted: true } })
+    expect(article.author.name).toBe('John')
+  })
+
+  it('should populate deleted documents when match filters on the deleted field', async () => {
+    const author = await UserDefault.create({ name: 'John', email: 'john@test.com' })
+    await Article.create({ title: 'Hello', author: author._id })
+    await UserDefault.deleteOne({ _id: author._id })
+
+    const article = await Article.findOne().populate({ path: 'author', match: { deleted: true } })
+    expect(article.author.name).toBe('John')
+  })
+
+  it('should exclude deleted documents joined by $lookup', async () => {
+    const active = await UserDefault.create({ name: 'Active', email: 'active@test.com' })
+    const deleted = await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com' })
+    await Article.create({ title: 'One', author: active._id })
+    await Article.create({ title: 'Two', author: deleted._id })
+    await UserDefault.deleteOne({ _id: deleted._id })
+
+    const result = await Article.aggregate([
+      {
+        $lookup: {
+          from: UserDefault.collection.collectionName,
+          localField: 'author',
+          foreignField: '_id',
+          as: 'authors',
+        },
+      },
+      { $sort: { title: 1 } },
+    ])
+
+    expect(result[0].authors).toHaveLength(1)
+    expect(result[1].authors).toHaveLength(0)
+  })
+
+  it('should keep deleted documents joined by $lookup with withDeleted()', async () => {
+    const deleted = await UserDefault.create({ name: 'Deleted', email: 'deleted@test.com' })
+    await Article.create({ title: 'One', author: deleted._id })
+    await UserDefault.deleteOne({ _id: deleted._id })
+
+    const result = await Article.aggregate([
+      {
+        $lookup: {
+          from: UserDefault.collection.collectionName,
+          localField: 'author',
+          foreignField: '_id',
+          as: 'authors',
+        },
+      },
+    ]).withDeleted()
+
+    expect(result[0].authors).toHaveLength(1)
+  })
+})
+
+describe('Paranoia Plugin - Read Only When Deleted', () => {
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+  let ScopedPost: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.ReadOnlyPost) delete mongoose.models.ReadOnlyPost
+    if (mongoose.models.ReadOnlyScopedPost) delete mongoose.models.ReadOnlyScopedPost
+
+    const schema = new Schema<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics, {}, ParanoiaQueryHelpers>({
+      title: String,
+    })
+    schema.plugin(Paranoia, { readOnlyWhenDeleted: true })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('ReadOnlyPost', schema)
+
+    const scopedSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({ title: String })
+    scopedSchema.plugin(Paranoia, { readOnlyWhenDeleted: true, activeArchive: 'Scope' })
+    ScopedPost = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('ReadOnlyScopedPost', scopedSchema)
+  })
+
+  it('should soft delete an already deleted document again', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+    const firstDeletedAt = post.deletedAt
+
+    await post.softDelete()
+
+    expect(post.deleted).toBe(true)
+    expect(post.deletedAt).not.toBe(firstDeletedAt)
+  })
+
+  it('should refuse to save a modified deleted document', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+
+    post.title = 'Changed'
+    const error = await post.save().catch((err) => err)
+    expect(error).toBeInstanceOf(ParanoiaError)
+    expect(error.code).toBe('DOCUMENT_DELETED')
+  })
+
+  it('should allow restoring a deleted document', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+
+    await post.restore()
+
+    expect((await Post.findById(post._id))?.deleted).toBe(false)
+  })
+
+  it('should allow saving a deleted document with withDeleted', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+
+    post.title = 'Changed'
+    await post.save({ withDeleted: true })
+
+    expect((await Post.findById(post._id).withDeleted())?.title).toBe('Changed')
+  })
+
+  it('should refuse updates that only match deleted rows in Default mode', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id })
+
+    await expect(Post.updateOne({ _id: post._id }, { title: 'Changed' })).rejects.toBeInstanceOf(ParanoiaError)
+    await expect(Post.findOneAndUpdate({ _id: post._id }, { title: 'Changed' })).rejects.toBeInstanceOf(ParanoiaError)
+    await expect(Post.replaceOne({ _id: post._id }, { title: 'Changed' })).rejects.toBeInstanceOf(ParanoiaError)
+    expect((await Post.findById(post._id).withDeleted())?.title).toBe('Hello')
+  })
+
+  it('should only update active rows when an update matches both in Default mode', async () => {
+    await Post.create([{ title: 'Active' }, { title: 'Deleted' }])
+    await Post.deleteOne({ title: 'Deleted' })
+
+    const result = await Post.updateMany({}, { title: 'Changed' })
+
+    expect(result.modifiedCount).toBe(1)
+    expect((await Post.find().deleted()).map((post: IPost) => post.title)).toEqual(['Deleted'])
+  })
+
+  it('should refuse to update deleted rows', async () => {
+    const post = await ScopedPost.create({ title: 'Hello' })
+    await ScopedPost.deleteOne({ _id: post._id })
+
+    await expect(ScopedPost.updateOne({ _id: post._id }, { title: 'Changed' })).rejects.toBeInstanceOf(ParanoiaError)
+    await expect(ScopedPost.findOneAndUpdate({ _id: post._id }, { title: 'Changed' })).rejects.toBeInstanceOf(
+      ParanoiaError,
+    )
+  })
+
+  it('should allow updating deleted rows with withDeleted()', async () => {
+    const post = await ScopedPost.create({ title: 'Hello' })
+    await ScopedPost.deleteOne({ _id: post._id })
+
+    const result = await ScopedPost.updateOne({ _id: post._id }, { title: 'Changed' }).withDeleted()
+    expect(result.modifiedCount).toBe(1)
+  })
+
+  it('should still allow deleting and restoring by query', async () => {
+    const post = await ScopedPost.create({ title: 'Hello' })
+    await ScopedPost.deleteOne({ _id: post._id })
+    await ScopedPost.deleteOne({ _id: post._id })
+    await ScopedPost.restore({ _id: post._id })
+
+    expect((await ScopedPost.findById(post._id))?.deleted).toBe(false)
+  })
+})
+
+describe('Paranoia Plugin - Unique Active', () => {
+  it('should turn declared unique paths into partial unique indexes', () => {
+    const schema = new Schema({ email: { type: String, unique: true }, name: String })
+    schema.plugin(Paranoia, { uniqueActive: true })
+
+    const emailIndexes = schema.indexes().filter(([fields]) => 'email' in fields)
+    expect(emailIndexes).toEqual([[{ email: 1 }, { unique: true, partialFilterExpression: { deleted: false } }]])
+  })
+
+  it('should rewrite compound unique indexes', () => {
+    const schema = new Schema({ tenant: String, email: String })
+    schema.index({ tenant: 1, email: 1 }, { unique: true })
+    schema.plugin(Paranoia, { uniqueActive: true })
+
+    expect(schema.indexes()).toContainEqual([
+      { tenant: 1, email: 1 },
+      { unique: true, partialFilterExpression: { deleted: false } },
+    ])
+  })
+
+  it('should add partial unique indexes for listed paths', () => {
+    const schema = new Schema({ email: String })
+    schema.plugin(Paranoia, { uniqueActive: ['email'] })
+
+    expect(schema.indexes()).toContainEqual([
+      { email: 1 },
+      { unique: true, partialFilterExpression: { deleted: false } },
+    ])
+  })
+
+  it('should reject unknown paths', () => {
+    const schema = new Schema({ email: String })
+    expect(() => schema.plugin(Paranoia, { uniqueActive: ['login'] })).toThrow('uniqueActive path "login"')
+  })
+
+  it('should allow reusing a unique value of a deleted document', async () => {
+    if (mongoose.models.UniqueUser) delete mongoose.models.UniqueUser
+    const schema = new Schema({ email: { type: String, unique: true } })
+    schema.plugin(Paranoia, { uniqueActive: true })
+    const UniqueUser = model('UniqueUser', schema)
+    await UniqueUser.init()
+
+    await UniqueUser.create({ email: 'a@b.com' })
+    await expect(UniqueUser.create({ email: 'a@b.com' })).rejects.toThrow()
+
+    await UniqueUser.deleteOne({ email: 'a@b.com' })
+    await UniqueUser.create({ email: 'a@b.com' })
+
+    expect(await UniqueUser.collection.countDocuments({})).toBe(2)
+  })
+
+  it('should migrate existing plain unique indexes', async () => {
+    if (mongoose.models.MigratedUser) delete mongoose.models.MigratedUser
+    const schema = new Schema({ email: String }, { autoIndex: false })
+    schema.plugin(Paranoia, { uniqueActive: ['email'] })
+    const MigratedUser = model('MigratedUser', schema)
+    await MigratedUser.createCollection()
+    await MigratedUser.collection.createIndex({ email: 1 }, { unique: true, name: 'email_1' })
+
+    const { dropped } = await migrateUniqueIndexes(MigratedUser)
+
+    expect(dropped).toEqual(['email_1'])
+    const emailIndex = (await MigratedUser.collection.indexes()).find((index) => index.key.email === 1)
+    expect(emailIndex?.partialFilterExpression).toEqual({ deleted: false })
+  })
+})
+
+describe('Paranoia Plugin - Lifecycle Hooks', () => {
+  const createModel = (configure: (schema: Schema<IPost, any, {}, ParanoiaQueryHelpers>) => void, events = false) => {
+    if (mongoose.models.HookedPost) delete mongoose.models.HookedPost
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String', events })
+    configure(postSchema)
+    return model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('HookedPost', postSchema)
+  }
+
+  it('should run softDelete middleware with the filter, actor and affected ids', async () => {
+    const calls: string[] = []
+    let received: ParanoiaHookContext | undefined
+    const Post = createModel((schema) => {
+      schema.pre('paranoia:softDelete', function (context: ParanoiaHookContext) {
+        calls.push(`pre:${context.ids.length}`)
+      })
+      schema.post('paranoia:softDelete', function (context: ParanoiaHookContext) {
+        calls.push('post')
+        received = context
+      })
+    })
+    const [first, second] = await Post.create([{ title: 'First' }, { title: 'Second' }])
+
+    await Post.deleteMany({ title: { $in: ['First', 'Second'] } }, { deletedBy: 'admin' })
+
+    expect(calls).toEqual(['pre:2', 'post'])
+    expect(received?.filter).toEqual({ title: { $in: ['First', 'Second'] } })
+    expect(received?.actor).toBe('admin')
+    expect(received?.ids.map(String).sort()).toEqual([String(first!._id), String(second!._id)].sort())
+    expect(received?.result.modifiedCount).toBe(2)
+  })
+
+  it('should abort the soft delete when a pre hook throws', async () => {
+    const Post = createModel((schema) => {
+      schema.pre('paranoia:softDelete', function () {
+        throw new Error('Not allowed')
+      })
+    })
+    const post = await Post.create({ title: 'Hello' })
+
+    await expect(Post.deleteOne({ _id: post._id })).rejects.toThrow('Not allowed')
+    expect(await Post.countDocuments()).toBe(1)
+  })
+
+  it('should pass the context to middleware of instance methods', async () => {
+    const calls: string[] = []
+    const Post = createModel((schema) => {
+      schema.pre('paranoia:softDelete', function (context) {
+        calls.push(`${this.modelName}:${context.document.title}:${context.actor}`)
+      })
+    })
+    const post = await Post.create({ title: 'Hello' })
+
+    await post.softDelete({ deletedBy: 'admin' })
+
+    expect(calls).toEqual(['HookedPost:Hello:admin'])
+  })
+
+  it('should run restore middleware once for Model.restore()', async () => {
+    const received: unknown[] = []
+    const Post = createModel((schema) => {
+      schema.pre('paranoia:restore', function (context: ParanoiaHookContext) {
+        received.push(context.filter)
+      })
+    })
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+
+    await Post.restore({ _id: post._id })
+
+    expect(received).toEqual([{ _id: post._id }])
+  })
+
+  it('should run middleware of a discriminator schema for its documents', async () => {
+    const calls: string[] = []
+    const Post = createModel((schema) => {
+      schema.pre('paranoia:softDelete', function () {
+        calls.push(`base:${this.modelName}`)
+      })
+    })
+    if (mongoose.models.HookedNews) delete mongoose.models.HookedNews
+    const newsSchema = new Schema({ source: String })
+    newsSchema.pre('paranoia:softDelete', function () {
+      calls.push(`news:${this.modelName}`)
+    })
+    const News = Post.discriminator('HookedNews', newsSchema)
+    const [news] = await News.create([{ title: 'Hello', source: 'wire' }])
+
+    await News.deleteOne({ _id: news!._id })
+    await (News as unknown as typeof Post).restore({ _id: news!._id })
+    await news!.softDelete()
+
+    expect(calls).toEqual(['base:HookedNews', 'news:HookedNews', 'base:HookedNews', 'news:HookedNews'])
+  })
+
+  it('should run restore and forceDelete middleware', async () => {
+    const calls: string[] = []
+    const Post = createModel((schema) => {
+      schema.post('paranoia:restore', function (context: ParanoiaHookContext) {
+        calls.push(`restore:${context.ids.length}`)
+      })
+      schema.post('paranoia:forceDelete', function (context: ParanoiaHookContext) {
+        calls.push(`forceDelete:${context.result.deletedCount}`)
+      })
+    })
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id })
+
+    await Post.restore({ _id: post._id })
+    await Post.forceDeleteMany({})
+
+    expect(calls).toEqual(['restore:1', 'forceDelete:1'])
+  })
+
+  it('should emit events on the model', async () => {
+    const Post = createModel(() => {}, true)
+    const events: [string, ParanoiaHookContext][] = []
+    Post.on('softDelete', (context: ParanoiaHookContext) => events.push(['softDelete', context]))
+    Post.on('restore', (context: ParanoiaHookContext) => events.push(['restore', context]))
+    const post = await Post.create({ title: 'Hello' })
+
+    await runWithActor('editor', () => Post.deleteOne({ _id: post._id }))
+    const deleted = await Post.findById(post._id).withDeleted()
+    await deleted!.restore()
+
+    expect(events.map(([name]) => name)).toEqual(['softDelete', 'restore'])
+    expect(events[0]![1].actor).toBe('editor')
+    expect(events[0]![1].deletionBatch).toBeUndefined()
+    expect(events[1]![1].document).toBe(deleted)
+  })
+})
+
+describe('Paranoia Plugin - Audit Trail', () => {
+  const createModel = (audit: 'embedded' | 'collection') => {
+    if (mongoose.models.AuditedPost) delete mongoose.models.AuditedPost
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String', deleteReason: true, audit })
+    return model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('AuditedPost', postSchema)
+  }
+
+  it('should embed every delete and restore in the document', async () => {
+    const Post = createModel('embedded')
+    const post = await Post.create({ title: 'Hello' })
+
+    await Post.deleteOne({ _id: post._id }, { deletedBy: 'moderator', deleteReason: 'spam' })
+    await Post.restore({ _id: post._id }, { restoredBy: 'admin' })
+    await runWithActor('moderator', () => post.softDelete())
+
+    const history = await Post.deletionHistory(post._id)
+    expect(history.map((entry) => entry.action)).toEqual(['softDelete', 'restore', 'softDelete'])
+    expect(history[0]).toMatchObject({ actor: 'moderator', reason: 'spam' })
+    expect(history[0]!.deletionBatch).toBeNull()
+    expect(history[0]!.timestamp).toBeInstanceOf(Date)
+    expect(history[1]!.actor).toBe('admin')
+  })
+
+  it('should keep the history of purged documents in the audit collection', async () => {
+    const Post = createModel('collection')
+    const post = await Post.create({ title: 'Hello' })
+
+    await Post.deleteOne({ _id: post._id }, { deletedBy: 'moderator' })
+    await Post.purgeDeleted()
+
+    const history = await Post.deletionHistory(post._id.toString())
+    expect(history.map((entry) => entry.action)).toEqual(['softDelete', 'forceDelete'])
+    expect(history[0]!.actor).toBe('moderator')
+    expect(await mongoose.connection.collection('paranoia_audit').countDocuments({ model: 'AuditedPost' })).toBe(2)
+  })
+
+  it('should require the audit option for deletionHistory', async () => {
+    await expect(UserDefault.deletionHistory(new mongoose.Types.ObjectId())).rejects.toThrow(
+      'audit option is required for deletionHistory',
+    )
+  })
+})
+
+describe('Paranoia Plugin - Trash', () => {
+  // Keep deletedAt timestamps of consecutive deletes apart
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.TrashPost) delete mongoose.models.TrashPost
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String' })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('TrashPost', postSchema)
+  })
+
+  it('should page through deleted documents, most recently deleted first', async () => {
+    await Post.create([{ title: 'Active' }, { title: 'First' }, { title: 'Second' }, { title: 'Third' }])
+    for (const title of ['First', 'Second', 'Third']) {
+      await Post.deleteOne({ title })
+      await tick()
+    }
+
+    const firstPage = await Post.trash({ limit: 2 })
+    const secondPage = await Post.trash({ page: 2, limit: 2 })
+
+    expect(firstPage.docs.map((post) => post.title)).toEqual(['Third', 'Second'])
+    expect(secondPage.docs.map((post) => post.title)).toEqual(['First'])
+    expect(firstPage).toMatchObject({ total: 3, page: 1, limit: 2, pages: 2 })
+  })
+
+  it('should reject invalid page and limit options', async () => {
+    await expect(Post.trash({ limit: 0 })).rejects.toThrow('trash limit option must be a positive integer')
+    await expect(Post.trash({ limit: 2.5 })).rejects.toThrow('trash limit option must be a positive integer')
+    await expect(Post.trash({ page: 0 })).rejects.toThrow('trash page option must be a positive integer')
+    await expect(Post.trash({ page: -1 })).rejects.toThrow('trash page option must be a positive integer')
+    await expect(Post.trash({ page: 1.5 })).rejects.toThrow('trash page option must be a positive integer')
+  })
+
+  it('should filter the trash by actor and deletion date', async () => {
+    await Post.create([{ title: 'First' }, { title: 'Second' }])
+    await Post.deleteOne({ title: 'First' }, { deletedBy: 'alice' })
+    await tick()
+    const since = new Date()
+    await Post.deleteOne({ title: 'Second' }, { deletedBy: 'bob' })
+
+    const byAlice = await Post.trash({ deletedBy: 'alice' })
+    const recent = await Post.trash({ since })
+
+    expect(byAlice.docs.map((post) => post.title)).toEqual(['First'])
+    expect(recent.docs.map((post) => post.title)).toEqual(['Second'])
+  })
+
+  it('should count deleted documents by day and actor', async () => {
+    await Post.create([{ title: 'Active' }, { title: 'First' }, { title: 'Second' }, { title: 'Third' }])
+    await Post.deleteMany({ title: { $in: ['First', 'Second'] } }, { deletedBy: 'alice' })
+    await Post.deleteOne({ title: 'Third' }, { deletedBy: 'bob' })
+
+    const stats = await Post.trashStats()
+
+    expect(stats.total).toBe(3)
+    expect(stats.byDay).toEqual([{ day: new Date().toISOString().slice(0, 10), count: 3 }])
+    expect(stats.byActor).toEqual([
+      { actor: 'alice', count: 2 },
+      { actor: 'bob', count: 1 },
+    ])
+  })
+})
+
+describe('Paranoia Plugin - Subdocuments', () => {
+  let Order: Model<any>
+
+  beforeEach(() => {
+    if (mongoose.models.SubdocOrder) delete mongoose.models.SubdocOrder
+
+    const itemSchema = new Schema({ sku: String, quantity: Number })
+    itemSchema.plugin(Paranoia)
+
+    const orderSchema = new Schema({ number: String, items: [itemSchema] })
+    orderSchema.plugin(Paranoia)
+    Order = model('SubdocOrder', orderSchema)
+  })
+
+  it('should soft delete an array item and store it with the parent', async () => {
+    const order = await Order.create({ number: 'A-1', items: [{ sku: 'pen' }, { sku: 'ink' }] })
+
+    await order.items.id(order.items[0]._id).softDelete()
+
+    const reloaded = await Order.findById(order._id)
+    expect(reloaded.items).toHaveLength(2)
+    expect(reloaded.items[0].deleted).toBe(true)
+    expect(reloaded.items[0].deletedAt).toBeInstanceOf(Date)
+    expect(reloaded.items[1].deleted).toBe(false)
+  })
+
+  it('should hide deleted items from the parent JSON', async () => {
+    const order = await Order.create({ number: 'A-1', items: [{ sku: 'pen' }, { sku: 'ink' }] })
+    await order.items[0].softDelete()
+
+    const reloaded = await Order.findById(order._id)
+    expect(reloaded.toJSON().items.map((item: any) => item.sku)).toEqual(['ink'])
+    expect(reloaded.toJSON({ withDeleted: true } as any).items).toHaveLength(2)
+  })
+
+  it('should keep hiding deleted items when toJSON is configured after the plugin', async () => {
+    const itemSchema = new Schema({ sku: String })
+    itemSchema.plugin(Paranoia)
+    const orderSchema = new Schema({ number: String, items: [itemSchema] })
+    orderSchema.plugin(Paranoia)
+    orderSchema.set('toJSON', {
+      transform: (_doc: any, ret: any) => {
+        ret.items.forEach((item: any) => delete item.deleted)
+        return ret
+      },
+    })
+    const order = new (mongoose.model('LateJSONOrder', orderSchema))({
+      number: 'A-1',
+      items: [{ sku: 'pen', deleted: true }, { sku: 'ink' }],
+    })
+
+    expect(order.toJSON().items.map((item: any) => item.sku)).toEqual(['ink'])
+    expect(order.toObject().items).toHaveLength(2)
+  })
+
+  it('should restore a deleted array item', async () => {
+    const order = await Order.create({ number: 'A-1', items: [{ sku: 'pen' }] })
+    await order.items[0].softDelete()
+
+    const reloaded = await Order.findById(order._id)
+    await reloaded.items[0].restore()
+
+    const restored = await Order.findById(order._id)
+    expect(restored.items[0].deleted).toBe(false)
+    expect(restored.items[0].deletedAt).toBeNull()
+  })
+
+  it('should remove an array item with forceDelete()', async () => {
+    const order = await Order.create({ number: 'A-1', items: [{ sku: 'pen' }, { sku: 'ink' }] })
+
+    await order.items[0].forceDelete()
+
+    const reloaded = await Order.findById(order._id)
+    expect(reloaded.items.map((item: any) => item.sku)).toEqual(['ink'])
+  })
+})
+
+describe('Paranoia Plugin - Timestamp Only', () => {
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.TimestampPost) delete mongoose.models.TimestampPost
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { timestampOnly: true, deletedAtField: 'deleted_at' })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('TimestampPost', postSchema)
+  })
+
+  it('should not add a boolean deleted field', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    expect(Post.schema.path('deleted')).toBeUndefined()
+    expect(Post.schema.path('deleted_at')).toBeDefined()
+    expect((await Post.collection.findOne({ _id: post._id }))?.deleted).toBeUndefined()
+    expect(post.deleted).toBe(false)
+  })
+
+  it('should derive the deletion state from deletedAt', async () => {
+    await Post.create([{ title: 'Active' }, { title: 'Deleted' }])
+    await Post.collection.insertOne({ title: 'Legacy' })
+    await Post.deleteOne({ title: 'Deleted' })
+
+    const active = await Post.find().sort({ title: 1 })
+    const deleted = await Post.find().deleted()
+
+    expect(active.map((post) => post.title)).toEqual(['Active', 'Legacy'])
+    expect(deleted).toHaveLength(1)
+    expect(deleted[0]!.deleted).toBe(true)
+    expect(await Post.countDocuments().withDeleted()).toBe(3)
+    expect(await Post.aggregate([{ $match: {} }])).toHaveLength(2)
+  })
+
+  it('should restore by clearing deletedAt', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+
+    await Post.restore({ _id: post._id })
+
+    const restored = await Post.findById(post._id)
+    expect(restored?.get('deleted_at')).toBeNull()
+    expect(restored?.deleted).toBe(false)
+  })
+
+  it('should require deletedAt', () => {
+    const schema = new Schema({ title: String })
+    expect(() => schema.plugin(Paranoia, { timestampOnly: true, deletedAt: false })).toThrow(
+      'deletedAt is required for timestampOnly option',
+    )
+  })
+})
+
+describe('Paranoia Plugin - Scheduled Deletion', () => {
+  const day = 24 * 60 * 60 * 1000
+  let Account: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.ScheduledAccount) delete mongoose.models.ScheduledAccount
+
+    const accountSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({ title: String })
+    accountSchema.plugin(Paranoia, { timestampOnly: true, scheduled: true, undoWindow: 14 })
+    Account = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('ScheduledAccount', accountSchema)
+  })
+
+  it('should keep documents active until their deletion date', async () => {
+    const account = await Account.create({ title: 'Pending' })
+
+    await account.softDelete({ deleteAt: new Date(Date.now() + day) })
+
+    expect(await Account.countDocuments()).toBe(1)
+    expect(await Account.countDocuments().deleted()).toBe(0)
+    expect(account.deleted).toBe(false)
+    expect(account.canRestore()).toBe(true)
+  })
+
+  it('should treat documents as deleted once the date has passed', async () => {
+    await Account.create({ title: 'Gone' })
+
+    await Account.deleteOne({ title: 'Gone' }, { deleteAt: new Date(Date.now() - 1000) })
+
+    expect(await Account.countDocuments()).toBe(0)
+    expect(await Account.countDocuments().deleted()).toBe(1)
+  })
+
+  it('should cancel a scheduled deletion with restore()', async () => {
+    const account = await Account.create({ title: 'Pending' })
+    await Account.deleteOne({ _id: account._id }, { deleteAt: new Date(Date.now() + day) })
+
+    await Account.restore({ _id: account._id })
+
+    const restored = await Account.findById(account._id)
+    expect(restored?.deletedAt).toBeNull()
+  })
+
+  it('should refuse to restore after the undo window', async () => {
+    const account = await Account.create({ title: 'Old' })
+    await account.softDelete({ deleteAt: new Date(Date.now() - 15 * day) })
+
+    const deleted = await Account.findById(account._id).deleted()
+    expect(deleted!.canRestore()).toBe(false)
+    await expect(deleted!.restore()).rejects.toMatchObject({ code: 'UNDO_WINDOW_EXPIRED' })
+
+    const result = await Account.restore({ _id: account._id })
+    expect(result.modifiedCount).toBe(0)
+  })
+
+  it('should refuse deleteAt before deleting when a cascade child is not scheduled', async () => {
+    if (mongoose.models.ScheduledOwner) delete mongoose.models.ScheduledOwner
+    if (mongoose.models.ScheduledNote) delete mongoose.models.ScheduledNote
+    const noteSchema = new Schema({ owner: Schema.Types.ObjectId })
+    noteSchema.plugin(Paranoia)
+    const Note = model('ScheduledNote', noteSchema)
+    const ownerSchema = new Schema({ title: String })
+    ownerSchema.plugin(Paranoia, {
+      timestampOnly: true,
+      scheduled: true,
+      cascade: [{ model: 'ScheduledNote', foreignField: 'owner' }],
+    })
+    const Owner = model('ScheduledOwner', ownerSchema)
+    const owner = await Owner.create({ title: 'Owner' })
+    await Note.create({ owner: owner._id })
+
+    await expect(Owner.deleteOne({ _id: owner._id }, { deleteAt: new Date(Date.now() + day) })).rejects.toThrow(
+      'cascade model "ScheduledNote" requires the scheduled option for deleteAt option',
+    )
+    expect((await Owner.findById(owner._id))?.get('deletedAt')).toBeNull()
+
+    await Owner.deleteOne({ _id: owner._id })
+    expect(await Note.countDocuments()).toBe(0)
+  })
+
+  it('should reject uniqueActive together with scheduled', () => {
+    const schema = new Schema({ email: { type: String, unique: true } })
+
+    expect(() => schema.plugin(Paranoia, { timestampOnly: true, scheduled: true, uniqueActive: true })).toThrow(
+      'uniqueActive option is not supported with scheduled option',
+    )
+  })
+
+  it('should require the scheduled option for deleteAt', async () => {
+    const user = await UserDefault.create({ name: 'John', email: 'john@example.com' })
+
+    await expect(UserDefault.deleteOne({ _id: user._id }, { deleteAt: new Date() })).rejects.toThrow(
+      'scheduled is required for deleteAt option',
+    )
+  })
+})
+
+describe('Paranoia Plugin - Migration', () => {
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.LegacyPost) delete mongoose.models.LegacyPost
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { strictFilter: true })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('LegacyPost', postSchema)
+  })
+
+  it('should backfill missing fields in batches and report progress', async () => {
+    await Post.collection.insertMany([{ title: 'A' }, { title: 'B' }, { title: 'C' }])
+    await Post.create({ title: 'D' })
+    const progress: number[] = []
+
+    const result = await migrateParanoia(Post, {
+      batchSize: 2,
+      onProgress: ({ processed, total }) => progress.push(processed / total),
+    })
+
+    expect(result).toEqual({ renamed: 0, backfilled: 3 })
+    expect(progress).toEqual([2 / 3, 1])
+    expect(await Post.collection.countDocuments({ deleted: false, deletedAt: null })).toBe(4)
+  })
+
+  it('should rename fields from their previous names', async () => {
+    const removedAt = new Date()
+    await Post.collection.insertMany([
+      { title: 'Removed', is_deleted: true, removed_at: removedAt },
+      { title: 'Kept', is_deleted: false },
+    ])
+
+    const result = await migrateParanoia(Post, {
+      renameFrom: { deletedField: 'is_deleted', deletedAtField: 'removed_at' },
+    })
+
+    expect(result).toEqual({ renamed: 3, backfilled: 1 })
+    const removed = await Post.findOne({ title: 'Removed' }).deleted()
+    expect(removed?.deletedAt).toEqual(removedAt)
+    expect((await Post.find()).map((post) => post.title)).toEqual(['Kept'])
+  })
+
+  it('should filter active records with deleted: false when strictFilter is enabled', async () => {
+    await Post.collection.insertOne({ title: 'Unmigrated' })
+    await Post.create({ title: 'Migrated' })
+
+    const query = Post.find()
+    const posts = await query
+
+    expect(query.getFilter()).toEqual({ deleted: false })
+    expect(posts.map((post) => post.title)).toEqual(['Migrated'])
+  })
+})
+
+describe('Paranoia Plugin - Bulk Write', () => {
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeEach(() => {
+    if (mongoose.models.BulkPost) delete mongoose.models.BulkPost
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { deletedBy: true, deletedByType: 'String', deleteReason: true, restoredBy: true })
+    Post = model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('BulkPost', postSchema)
+  })
+
+  it('should turn deleteOne and deleteMany operations into soft deletes', async () => {
+    await Post.create([{ title: 'One' }, { title: 'Two' }, { title: 'Three' }])
+
+    const result = await Post.bulkWrite([
+      { deleteOne: { filter: { title: 'One' } } },
+      { deleteMany: { filter: { title: { $in: ['Two', 'Three'] } } } },
+    ])
+
+    expect(result.modifiedCount).toBe(3)
+    expect(result.deletedCount).toBe(0)
+    const deleted = await Post.find().deleted()
+    expect(deleted).toHaveLength(3)
+    expect(deleted.every((post: IPost) => post.deletedAt instanceof Date)).toBe(true)
+  })
+
+  it('should record the actor and reason of each delete operation', async () => {
+    await Post.create([{ title: 'One' }, { title: 'Two' }])
+    const ops: ParanoiaBulkWriteOperation[] = [
+      { deleteOne: { filter: { title: 'One' }, deletedBy: 'admin', deleteReason: 'spam' } },
+      { deleteOne: { filter: { title: 'Two' } } },
+    ]
+
+    await runWithActor('system', () => Post.bulkWrite(ops))
+
+    const one = await Post.findOne({ title: 'One' }).deleted()
+    const two = await Post.findOne({ title: 'Two' }).deleted()
+    expect(one?.deletedBy).toBe('admin')
+    expect(one?.deleteReason).toBe('spam')
+    expect(two?.deletedBy).toBe('system')
+  })
+
+  it('should mix deletes and restores in one call', async () => {
+    await Post.create([{ title: 'Keep' }, { title: 'Old' }, { title: 'Older' }])
+    await Post.deleteMany({ title: { $in: ['Old', 'Older'] } })
+    const ops: ParanoiaBulkWriteOperation[] = [
+      { deleteOne: { filter: { title: 'Keep' } } },
+      { restoreOne: { filter: { title: 'Old' }, restoredBy: 'admin' } },
+      { restoreMany: { filter: { title: /^Older/ } } },
+    ]
+
+    await Post.bulkWrite(ops)
+
+    const active = await Post.find().sort({ title: 1 })
+    expect(active.map((post) => post.title)).toEqual(['Old', 'Older'])
+    expect(active[0]!.restoredBy).toBe('admin')
+    expect(active[0]!.deletedAt).toBeNull()
+    expect(await Post.countDocuments().deleted()).toBe(1)
+  })
+
+  it('should not soft delete documents that are already deleted', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id }, { deletedBy: 'owner' })
+
+    await Post.bulkWrite([{ deleteOne: { filter: { _id: post._id }, deletedBy: 'admin' } }])
+
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost?.deletedBy).toBe('owner')
+  })
+
+  it('should hard delete with the forceDelete option', async () => {
+    await Post.create([{ title: 'One' }, { title: 'Two' }])
+
+    const options = { forceDelete: true }
+    await Post.bulkWrite([{ deleteOne: { filter: { title: 'One' } } }], options)
+    await Post.bulkWrite([{ deleteOne: { filter: { title: 'Two' }, forceDelete: true } }])
+
+    expect(await Post.countDocuments().withDeleted()).toBe(0)
+    // The option is Paranoia's and doesn't reach the driver
+    expect(options).not.toHaveProperty('forceDelete')
+  })
+
+  it('should run hooks, audit and events around soft deletes and restores', async () => {
+    const calls: string[] = []
+    const schema = new Schema({ title: String })
+    schema.plugin(Paranoia, { audit: 'embedded', events: true })
+    schema.pre('paranoia:softDelete', function (context: ParanoiaHookContext) {
+      calls.push(`pre:softDelete:${context.ids.length}`)
+    })
+    schema.post('paranoia:restore', function (context: ParanoiaHookContext) {
+      calls.push(`post:restore:${context.ids.length}`)
+    })
+    const Audited = model('BulkAudited', schema)
+    Audited.on('softDelete', (context: ParanoiaHookContext) =>
+      calls.push(`event:softDelete:${context.result.modifiedCount}`),
+    )
+    const [one] = await Audited.create([{ title: 'One' }, { title: 'Two' }, { title: 'Old' }])
+    await Audited.deleteOne({ title: 'Old' })
+    calls.length = 0
+
+    await Audited.bulkWrite([
+      { deleteMany: { filter: { title: { $in: ['One', 'Two'] } } } },
+      { restoreOne: { filter: { title: 'Old' } } },
+    ] as any[])
+
+    expect(calls).toEqual(['pre:softDelete:2', 'post:restore:1', 'event:softDelete:3'])
+    const history = await (Audited as any).deletionHistory(one!._id)
+    expect(history.map((entry: any) => entry.action)).toEqual(['softDelete'])
+
+    delete mongoose.models.BulkAudited
+  })
+
+  it('should reject soft deletes that would skip cascades', async () => {
+    const schema = new Schema({ title: String })
+    schema.plugin(Paranoia, { cascade: [{ model: 'BulkPost', foreignField: 'parent' }] })
+    const Parent = model('BulkParent', schema)
+
+    await expect(Parent.bulkWrite([{ deleteMany: { filter: {} } }])).rejects.toThrow(
+      'bulkWrite deleteMany is not supported with archive storage or cascade',
+    )
+
+    delete mongoose.models.BulkParent
+  })
+})
+
+describe('Paranoia Plugin - Global Registration', () => {
+  // A separate mongoose instance keeps the global plugin away from the other tests
+  let instance: mongoose.Mongoose
+
+  beforeAll(async () => {
+    instance = new mongoose.Mongoose()
+    instance.plugin(Paranoia)
+    await instance.connect(mongoServer.getUri(), { dbName: 'paranoia-global' })
+  })
+
+  afterAll(async () => {
+    await instance.disconnect()
+  })
+
+  beforeEach(async () => {
+    for (const name of instance.modelNames()) {
+      instance.deleteModel(name)
+    }
+    await instance.connection.dropDatabase()
+  })
+
+  it('should make every model paranoid', async () => {
+    const Post = instance.model('GlobalPost', new Schema({ title: String })) as any
+
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id })
+
+    expect(await Post.countDocuments()).toBe(0)
+    expect(await Post.countDocuments().withDeleted()).toBe(1)
+  })
+
+  it('should leave schemas with paranoia: false alone', async () => {
+    const Country = instance.model('GlobalCountry', new Schema({ code: String }, { paranoia: false }))
+
+    const country = await Country.create({ code: 'SK' })
+    await Country.deleteOne({ _id: country._id })
+
+    expect(Country.schema.path('deleted')).toBeUndefined()
+    expect(await Country.collection.countDocuments()).toBe(0)
+  })
+
+  it('should override the global options with the paranoia schema option', async () => {
+    const schema = new Schema({ title: String }, { paranoia: { deletedBy: true, deletedByType: 'String' } })
+    const Post = instance.model('GlobalAuditedPost', schema) as any
+
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id }, { deletedBy: 'admin' })
+
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost.deletedBy).toBe('admin')
+  })
+
+  it('should reject plugin options that conflict with the global registration', () => {
+    const schema = new Schema({ title: String })
+    schema.plugin(Paranoia, { deletedBy: true })
+
+    expect(() => instance.model('GlobalConflict', schema)).toThrow(
+      'Paranoia plugin is already applied to this schema with different options',
+    )
+  })
+
+  it('should apply the plugin once when registered twice with the same options', async () => {
+    const schema = new Schema({ title: String })
+    schema.plugin(Paranoia)
+    const Post = instance.model('GlobalTwice', schema) as any
+
+    const post = await Post.create({ title: 'Hello' })
+    const query = Post.find({ _id: post._id })
+    await query
+
+    expect(query.getFilter()).toEqual({ _id: post._id, deleted: { $ne: true } })
+  })
+
+  it('should leave embedded schemas alone unless they opt in', async () => {
+    const line = new Schema({ sku: String })
+    const tracked = new Schema({ sku: String }, { paranoia: {} })
+    const Order = instance.model(
+      'GlobalOrder',
+      new Schema({ number: String, lines: [line], address: new Schema({ city: String }), tracked: [tracked] }),
+    ) as any
+
+    const order = await Order.create({ number: '1', lines: [{ sku: 'A' }], tracked: [{ sku: 'B' }] })
+
+    expect(Order.schema.path('lines').schema.path('deleted')).toBeUndefined()
+    expect(Order.schema.path('address').schema.path('deleted')).toBeUndefined()
+    expect(order.lines[0].softDelete).toBeUndefined()
+    await order.tracked[0].softDelete()
+    expect(order.toJSON().tracked).toHaveLength(0)
+  })
+
+  it('should leave the actor snapshot schema alone', async () => {
+    const schema = new Schema(
+      { title: String },
+      { paranoia: { deletedBy: true, deletedByType: { id: Number, name: String } } },
+    )
+    const Post = instance.model('GlobalSnapshotPost', schema) as any
+
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id }, { deletedBy: { id: 7, name: 'Ada' } })
+
+    expect(Post.schema.path('deletedBy').schema.path('deleted')).toBeUndefined()
+    const deletedPost = await Post.findById(post._id).withDeleted()
+    expect(deletedPost.toJSON().deletedBy).toMatchObject({ id: 7, name: 'Ada' })
+  })
+
+  it('should register globally with embedded audit', async () => {
+    const audited = new mongoose.Mongoose()
+    audited.plugin(Paranoia, { audit: 'embedded' })
+    await audited.connect(mongoServer.getUri(), { dbName: 'paranoia-global-audit' })
+
+    try {
+      const Post = audited.model('GlobalAuditPost', new Schema({ title: String })) as any
+      const post = await Post.create({ title: 'Hello' })
+      await Post.deleteOne({ _id: post._id })
+
+      const history = await Post.deletionHistory(post._id)
+      expect(history.map((entry: any) => entry.action)).toEqual(['softDelete'])
+      expect(Post.schema.path('deletionHistory').schema.path('deleted')).toBeUndefined()
+    } finally {
+      await audited.connection.dropDatabase()
+      await audited.disconnect()
+    }
+  })
+
+  it('should soft delete discriminators sharing the base collection', async () => {
+    const Event = instance.model('GlobalEvent', new Schema({ title: String })) as any
+    const Click = Event.discriminator('GlobalClick', new Schema({ url: String }))
+
+    const click = await Click.create({ title: 'Click', url: '/home' })
+    await Event.create({ title: 'Event' })
+    await Click.deleteOne({ _id: click._id })
+
+    expect(await Event.countDocuments()).toBe(1)
+    expect(await Click.countDocuments()).toBe(0)
+    expect(await Click.countDocuments().withDeleted()).toBe(1)
+    const restored = await Click.restore({ _id: click._id })
+    expect(restored.modifiedCount).toBe(1)
+    expect(await Event.countDocuments()).toBe(2)
+  })
+
+  it('should use the options of a discriminator schema that applies the plugin itself', async () => {
+    const Event = instance.model('GlobalFeedEvent', new Schema({ title: String })) as any
+    const newsSchema = new Schema({ source: String })
+    newsSchema.plugin(Paranoia, { deletedField: 'removed' })
+    const News = Event.discriminator('GlobalNews', newsSchema)
+
+    const news = await News.create({ title: 'Hello', source: 'wire' })
+    await News.deleteOne({ _id: news._id })
+
+    const query = News.find()
+    expect(await query).toHaveLength(0)
+    expect(query.getFilter()).toEqual({ __t: 'GlobalNews', removed: { $ne: true } })
+    const raw = await News.collection.findOne({ _id: news._id })
+    expect(raw.removed).toBe(true)
+    expect(raw.deleted).not.toBe(true)
+  })
+})
+
+describe('Paranoia Plugin - Archive Storage', () => {
+  // Moving documents to the archive runs in a transaction, which needs a replica set
+  let replSet: MongoMemoryReplSet
+  let connection: mongoose.Connection
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1 } })
+    connection = await mongoose.createConnection(replSet.getUri()).asPromise()
+  })
+
+  afterAll(async () => {
+    await connection.close()
+    await replSet.stop()
+  })
+
+  beforeEach(async () => {
+    if (connection.models.ArchivedPost) connection.deleteModel('ArchivedPost')
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia, { storage: 'archive' })
+    Post = connection.model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('ArchivedPost', postSchema)
+
+    await Post.createCollection()
+    await connection.createCollection('archivedposts_archive').catch(() => {})
+    await Post.collection.deleteMany({})
+    await connection.collection('archivedposts_archive').deleteMany({})
+  })
+
+  it('should move deleted documents to the archive collection', async () => {
+    const post = await Post.create({ title: 'Hello' })
+
+    await Post.deleteOne({ _id: post._id })
+
+    expect(await Post.collection.countDocuments({})).toBe(0)
+    const archived = await connection.collection('archivedposts_archive').findOne({ _id: post._id })
+    expect(archived?.title).toBe('Hello')
+    expect(archived?.deleted).toBe(true)
+    expect(archived?.deletedAt).toBeInstanceOf(Date)
+  })
+
+  it('should query the archive with deleted() and both collections with withDeleted()', async () => {
+    await Post.create([{ title: 'Active' }, { title: 'Deleted' }])
+    await Post.deleteMany({ title: 'Deleted' })
+
+    const active = await Post.find()
+    const deleted = await Post.find().deleted()
+    const all = await Post.find().withDeleted().sort({ title: 1 })
+
+    expect(active.map((post) => post.title)).toEqual(['Active'])
+    expect(deleted.map((post: any) => post.title)).toEqual(['Deleted'])
+    expect(all.map((post: any) => post.title)).toEqual(['Active', 'Deleted'])
+    expect(await Post.countDocuments().withDeleted()).toBe(2)
+  })
+
+  it('should move documents back on restore', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await post.softDelete()
+
+    await Post.restore({ _id: post._id })
+
+    const restored = await Post.findById(post._id)
+    expect(restored?.deleted).toBe(false)
+    expect(restored?.deletedAt).toBeNull()
+    expect(await connection.collection('archivedposts_archive').countDocuments({})).toBe(0)
+  })
+
+  it('should restore a document loaded from the archive', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await Post.findByIdAndDelete(post._id)
+
+    const archived = await Post.findById(post._id).deleted()
+    await archived!.restore()
+
+    expect(await Post.countDocuments()).toBe(1)
+    expect(await Post.countDocuments().deleted()).toBe(0)
+  })
+
+  it('should remove archived documents when force deleting', async () => {
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id })
+
+    const result = await Post.forceDeleteOne({ _id: post._id })
+
+    expect(result.deletedCount).toBe(1)
+    expect(await Post.countDocuments().withDeleted()).toBe(0)
+  })
+
+  it('should include archived documents in withDeleted() aggregations', async () => {
+    await Post.create([{ title: 'Active' }, { title: 'Deleted' }])
+    await Post.deleteOne({ title: 'Deleted' })
+
+    const all = await Post.aggregate([{ $sort: { title: 1 } }]).withDeleted()
+    const deleted = await Post.aggregate([]).onlyDeleted()
+
+    expect(all.map((post) => post.title)).toEqual(['Active', 'Deleted'])
+    expect(deleted.map((post) => post.title)).toEqual(['Deleted'])
+  })
+})
+
+describe('Paranoia Plugin - Transactions', () => {
+  let replSet: MongoMemoryReplSet
+  let connection: mongoose.Connection
+  let Project: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+  let Task: Model<any, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1 } })
+    connection = await mongoose.createConnection(replSet.getUri()).asPromise()
+  })
+
+  afterAll(async () => {
+    await connection.close()
+    await replSet.stop()
+  })
+
+  beforeEach(async () => {
+    if (connection.models.TxProject) connection.deleteModel('TxProject')
+    if (connection.models.TxTask) connection.deleteModel('TxTask')
+
+    const taskSchema = new Schema({ project: Schema.Types.ObjectId, title: String })
+    taskSchema.plugin(Paranoia)
+    Task = connection.model('TxTask', taskSchema) as any
+
+    const projectSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({ title: String })
+    projectSchema.plugin(Paranoia, { cascade: [{ model: 'TxTask', foreignField: 'project' }] })
+    Project = connection.model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('TxProject', projectSchema)
+
+    // Collections can't be created implicitly inside a transaction
+    await Project.createCollection()
+    await Task.createCollection()
+    await Project.collection.deleteMany({})
+    await Task.collection.deleteMany({})
+  })
+
+  it('should soft delete parents and children with softDeleteInTransaction()', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    await Task.create({ project: project._id, title: 'Launch' })
+
+    const result = await Project.softDeleteInTransaction({ _id: project._id })
+
+    expect(result.deletedCount).toBe(1)
+    expect(await Project.countDocuments()).toBe(0)
+    expect(await Task.countDocuments()).toBe(0)
+  })
+
+  it('should roll back parents and children when the transaction aborts', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    await Task.create({ project: project._id, title: 'Launch' })
+
+    await expect(
+      connection.transaction(async (session) => {
+        await Project.softDeleteInTransaction({ _id: project._id }, { session })
+        throw new Error('abort')
+      }),
+    ).rejects.toThrow('abort')
+
+    expect(await Project.countDocuments()).toBe(1)
+    expect(await Task.countDocuments()).toBe(1)
+  })
+
+  it('should run softDelete() and restore() in the given session', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    await Task.create({ project: project._id, title: 'Launch' })
+
+    const session = await connection.startSession()
+    session.startTransaction()
+    await project.softDelete({ session })
+    await session.abortTransaction()
+    expect(await Project.countDocuments()).toBe(1)
+    expect(await Task.countDocuments()).toBe(1)
+
+    await Project.deleteOne({ _id: project._id })
+    const deletedProject = await Project.findById(project._id).withDeleted()
+    session.startTransaction()
+    await deletedProject.restore({ session })
+    await session.abortTransaction()
+    await session.endSession()
+
+    expect(await Project.countDocuments()).toBe(0)
+    expect(await Task.countDocuments()).toBe(0)
+  })
+
+  it('should run the restore static in the given session', async () => {
+    const project = await Project.create({ title: 'Apollo' })
+    await Task.create({ project: project._id, title: 'Launch' })
+    await Project.deleteOne({ _id: project._id })
+
+    await connection.transaction(async (session) => {
+      await Project.restore({ _id: project._id }, { session })
+      expect(await Project.countDocuments().session(session)).toBe(1)
+      expect(await Task.countDocuments()).toBe(0)
+    })
+
+    expect(await Project.countDocuments()).toBe(1)
+    expect(await Task.countDocuments()).toBe(1)
+  })
+})
+
+describe('Paranoia Plugin - Change Streams', () => {
+  // Change streams need a replica set
+  let replSet: MongoMemoryReplSet
+  let connection: mongoose.Connection
+  let Post: Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1 } })
+    connection = await mongoose.createConnection(replSet.getUri()).asPromise()
+  })
+
+  afterAll(async () => {
+    await connection.close()
+    await replSet.stop()
+  })
+
+  beforeEach(async () => {
+    if (connection.models.WatchedPost) connection.deleteModel('WatchedPost')
+
+    const postSchema = new Schema<
+      IPost,
+      Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics,
+      {},
+      ParanoiaQueryHelpers
+    >({
+      title: String,
+    })
+    postSchema.plugin(Paranoia)
+    Post = connection.model<IPost, Model<IPost, ParanoiaQueryHelpers> & ParanoiaStatics>('WatchedPost', postSchema)
+    await Post.createCollection()
+  })
+
+  // Start the stream at a point in time taken before the writes so no event can be missed
+  const operationTime = async () => (await connection.db!.command({ ping: 1 })).operationTime
+
+  it('should classify inserts, updates, soft deletes, restores and hard deletes', async () => {
+    const startAtOperationTime = await operationTime()
+
+    const post = await Post.create({ title: 'Hello' })
+    await Post.updateOne({ _id: post._id }, { title: 'Hello again' })
+    await Post.deleteOne({ _id: post._id })
+    await Post.restore({ _id: post._id })
+    await Post.forceDeleteOne({ _id: post._id })
+
+    const stream = Post.watchParanoia([], { startAtOperationTime })
+    const operations: string[] = []
+    for (let i = 0; i < 5; i++) {
+      operations.push((await stream.next()).paranoiaOperation)
+    }
+    await stream.close()
+
+    expect(operations).toEqual(['insert', 'update', 'softDelete', 'restore', 'hardDelete'])
+  })
+
+  it('should classify replacements by the deletion state of the new document', async () => {
+    const startAtOperationTime = await operationTime()
+
+    const post = await Post.create({ title: 'Hello' })
+    await Post.replaceOne({ _id: post._id }, { title: 'Replaced' })
+    await Post.replaceOne({ _id: post._id }, { title: 'Deleted', deleted: true })
+
+    const stream = Post.watchParanoia([], { startAtOperationTime })
+    const operations: string[] = []
+    for (let i = 0; i < 3; i++) {
+      operations.push((await stream.next()).paranoiaOperation)
+    }
+    await stream.close()
+
+    expect(operations).toEqual(['insert', 'update', 'softDelete'])
+  })
+
+  it('should classify restores by replacement using pre-images', async () => {
+    await connection.db!.command({
+      collMod: Post.collection.collectionName,
+      changeStreamPreAndPostImages: { enabled: true },
+    })
+    const startAtOperationTime = await operationTime()
+
+    const post = await Post.create({ title: 'Hello', deleted: true })
+    await Post.replaceOne({ _id: post._id }, { title: 'Restored', deleted: false }).withDeleted()
+
+    const stream = Post.watchParanoia([], { startAtOperationTime, fullDocumentBeforeChange: 'whenAvailable' })
+    await stream.next()
+    const event = await stream.next()
+    await stream.close()
+
+    expect(event.paranoiaOperation).toBe('restore')
+  })
+
+  it('should run the given pipeline after the classification', async () => {
+    const startAtOperationTime = await operationTime()
+
+    const first = await Post.create({ title: 'First' })
+    const second = await Post.create({ title: 'Second' })
+    await Post.deleteOne({ _id: first._id })
+    await Post.deleteOne({ _id: second._id })
+
+    const stream = Post.watchParanoia([{ $match: { paranoiaOperation: 'softDelete' } }], { startAtOperationTime })
+    const event = await stream.next()
+    await stream.close()
+
+    expect(event.paranoiaOperation).toBe('softDelete')
+    expect('documentKey' in event && event.documentKey._id).toEqual(first._id)
+  })
+
+  it('should resume after a token of a previous event', async () => {
+    const startAtOperationTime = await operationTime()
+
+    const post = await Post.create({ title: 'Hello' })
+    await Post.deleteOne({ _id: post._id })
+
+    const stream = Post.watchParanoia([], { startAtOperationTime })
+    const inserted = await stream.next()
+    await stream.close()
+
+    const resumed = Post.watchParanoia([], { resumeAfter: inserted._id })
+    const next = await resumed.next()
+    await resumed.close()
+
+    expect(next.paranoiaOperation).toBe('softDelete')
+  })
 })
@@ -1,5 +1,103 @@
-import type { Model, Query, QueryWithHelpers, UpdateWriteOpResult, HydratedDocument } from 'mongoose'
-import { Schema } from 'mongoose'
+import type {
+  AnyBulkWriteOperation,
+  ClientSession,
+  HydratedDocument,
+  MongooseBulkWriteOptions,
+  Query,
+  QueryWithHelpers,
+  UpdateWriteOpResult,
+  mongo,
+} from 'mongoose'
+import { Aggregate, Document, Model, Schema, skipMiddlewareFunction } from 'mongoose'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import { isDeepStrictEqual } from 'node:util'
+
+const actorStorage = new AsyncLocalStorage<{ actor: any }>()
+
+/**
+ * Run a function with an ambient actor that Paranoia records as deletedBy/restoredBy
+ * when no explicit actor is passed to a delete or restore call
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => runWithActor(req.user.id, next))
+ * ```
+ */
+export function runWithActor<T>(actor: any, fn: () => T): T {
+  return actorStorage.run({ actor }, fn)
+}
+
+/**
+ * Get the actor set by the closest enclosing runWithActor call
+ */
+export function getCurrentActor(): any {
+  return actorStorage.getStore()?.actor
+}
+
+/**
+ * How queries treat soft-deleted records
+ * - "Scope": Must explicitly use .active or .deleted query helpers
+ * - "Default": Automatically filter deleted records on all queries (use .deleted to include them)
+ * - "All": Return all records by default (use .active to filter)
+ */
+export type ParanoiaActiveArchive = 'Scope' | 'Default' | 'All'
+
+const activeArchiveStorage = new AsyncLocalStorage<{ activeArchive: ParanoiaActiveArchive }>()
+
+/**
+ * Run a function with every paranoid model using the given activeArchive mode,
+ * unless a query sets its own with the paranoia option
+ *
+ * @example
+ * ```typescript
+ * app.use('/admin', (req, res, next) => runWithActiveArchive('All', next))
+ * ```
+ */
+export function runWithActiveArchive<T>(activeArchive: ParanoiaActiveArchive, fn: () => T): T {
+  return activeArchiveStorage.run({ activeArchive }, fn)
+}
+
+/**
+ * Get the activeArchive mode set by the closest enclosing runWithActiveArchive call
+ */
+export function getCurrentActiveArchive(): ParanoiaActiveArchive | undefined {
+  return activeArchiveStorage.getStore()?.activeArchive
+}
+
+/**
+ * Reasons for which Paranoia refuses an operation
+ * - "DOCUMENT_DELETED": the operation would modify a soft-deleted document (readOnlyWhenDeleted)
+ * - "UNDO_WINDOW_EXPIRED": the document was deleted longer ago than the undo window allows restoring (undoWindow)
+ */
+export type ParanoiaErrorCode = 'DOCUMENT_DELETED' | 'UNDO_WINDOW_EXPIRED'
+
+/**
+ * Error thrown when Paranoia refuses an operation
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await deletedUser.save()
+ * } catch (err) {
+ *   if (err instanceof ParanoiaError && err.code === 'DOCUMENT_DELETED') {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export class ParanoiaError extends Error {
+  /**
+   * Machine-readable reason for the error
+   */
+  readonly code: ParanoiaErrorCode
+
+  constructor(code: ParanoiaErrorCode, message: string) {
+    super(message)
+    this.name = 'ParanoiaError'
+    this.code = code
+  }
+}
 
 /**
  * Query helpers for filtering active/deleted records
@@ -21,6 +119,90 @@ export interface ParanoiaQueryHelpers<ResultType = any, DocType = any, THelpers
   withDeleted(this: QueryWithHelpers<ResultType, DocType, THelpers>): QueryWithHelpers<ResultType, DocType, THelpers>
 }
 
+declare module 'mongoose' {
+  interface Aggregate<ResultType> {
+    /**
+     * Return all records (both active and deleted) - bypasses default filtering
+     */
+    withDeleted(): this
+
+    /**
+     * Filter to only return deleted records
+     */
+    onlyDeleted(): this
+  }
+
+  interface SaveOptions {
+    /**
+     * Allow saving a soft-deleted document when readOnlyWhenDeleted is enabled
+     */
+    withDeleted?: boolean
+  }
+
+  interface QueryOptions<DocType = unknown> {
+    /**
+     * activeArchive mode of this query, overriding the schema's and the one set with runWithActiveArchive
+     */
+    paranoia?: ParanoiaActiveArchive
+  }
+
+  interface AggregateOptions {
+    /**
+     * activeArchive mode of this aggregation and its $lookup stages, overriding the schema's
+     * and the one set with runWithActiveArchive
+     */
+    paranoia?: ParanoiaActiveArchive
+  }
+
+  // Type parameters have to repeat mongoose's for the declarations to merge
+  interface Schema<
+    RawDocType = any,
+    TModelType = Model<RawDocType, any, any, any>,
+    TInstanceMethods = {},
+    TQueryHelpers = {},
+    TVirtuals = {},
+    TStaticMethods = {},
+    TSchemaOptions = DefaultSchemaOptions,
+    DocType extends ApplySchemaOptions<
+      ObtainDocumentType<DocType, RawDocType, ResolveSchemaOptions<TSchemaOptions>>,
+      ResolveSchemaOptions<TSchemaOptions>
+    > = ApplySchemaOptions<
+      ObtainDocumentType<any, RawDocType, ResolveSchemaOptions<TSchemaOptions>>,
+      ResolveSchemaOptions<TSchemaOptions>
+    >,
+    THydratedDocumentType = HydratedDocument<
+      DocType,
+      AddDefaultId<DocType, TVirtuals, TSchemaOptions> & TInstanceMethods,
+      TQueryHelpers,
+      AddDefaultId<DocType, TVirtuals, TSchemaOptions>,
+      IsItRecordAndNotAny<RawDocType> extends true ? RawDocType : DocType,
+      ResolveSchemaOptions<TSchemaOptions>
+    >,
+    TSchemaDefinition = SchemaDefinition<SchemaDefinitionType<RawDocType>, RawDocType, THydratedDocumentType>,
+    LeanResultType = IsItRecordAndNotAny<RawDocType> extends true
+      ? RawDocType
+      : Default__v<Require_id<BufferToBinary<FlattenMaps<DocType>>>>,
+  > {
+    /**
+     * Run before every soft delete, restore or force delete of the model, throw to abort it
+     */
+    pre(method: ParanoiaHookName, fn: ParanoiaHook<TModelType>): this
+
+    /**
+     * Run after every soft delete, restore or force delete of the model, context.result holds its result
+     */
+    post(method: ParanoiaHookName, fn: ParanoiaHook<TModelType>): this
+  }
+
+  interface SchemaOptions {
+    /**
+     * Paranoia options of this schema, overriding the ones the plugin was registered with,
+     * or false to leave the schema alone when the plugin is registered globally
+     */
+    paranoia?: false | ParanoiaOptions
+  }
+}
+
 /**
  * Static methods added to the model by Paranoia plugin
  */
@@ -29,71 +211,597 @@ export interface ParanoiaStatics {
    * Restore soft-deleted documents matching the filter
    * @param filter - Query filter to find documents to restore
    */
-  restore(filter: any): Promise<UpdateWriteOpResult>
-}
+  restore(filter: any, options?: ParanoiaRestoreOptions): Promise<UpdateWriteOpResult>
+
+  /**
+   * Permanently remove the first document matching the filter
+   * @param filter - Query filter to find the document to remove
+   */
+  forceDeleteOne(filter: any, options?: Record<string, any>): Promise<mongo.DeleteResult>
+
+  /**
+   * Permanently remove all documents matching the filter
+   * @param filter - Query filter to find documents to remove
+   */
+  forceDeleteMany(filter: any, options?: Record<string, any>): Promise<mongo.DeleteResult>
+
+  /**
+   * Model.bulkWrite accepting the soft delete and restore operations as well, and forceDelete to hard delete
+   * every deleteOne/deleteMany operation
+   * @param ops - Regular bulk write operations mixed with ParanoiaBulkWriteOperation
+   */
+  bulkWrite(
+    ops: Array<ParanoiaBulkWriteOperation | AnyBulkWriteOperation>,
+    options?: mongo.BulkWriteOptions & MongooseBulkWriteOptions & { forceDelete?: boolean },
+  ): Promise<mongo.BulkWriteResult>
+
+  /**
+   * Permanently remove soft-deleted documents
+   * @param options - Only purge documents deleted before olderThan (requires deletedAt)
+   */
+  purgeDeleted(options?: ParanoiaPurgeOptions): Promise<mongo.DeleteResult>
+
+  /**
+   * Read the audit trail of a document, oldest entry first (requires audit)
+   * @param id - _id of the document
+   */
+  deletionHistory(id: any, options?: { session?: ClientSession }): Promise<ParanoiaAuditEntry[]>
+
+  /**
+   * List soft-deleted documents a page at a time, most recently deleted first
+   * @param options - Page, filters and sort order
+   */
+  trash(options?: ParanoiaTrashOptions): Promise<ParanoiaTrashResult>
+
+  /**
+   * Count soft-deleted documents, grouped by day of deletion (requires deletedAt) and actor (requires deletedBy)
+   */
+  trashStats(options?: { session?: ClientSession }): Promise<ParanoiaTrashStats>
+
+  /**
+   * Soft delete all documents matching the filter together with their cascades in one transaction,
+   * joining options.session when it is already in one. deletedCount is the number of soft-deleted documents
+   * @param filter - Query filter to find documents to delete
+   */
+  softDeleteInTransaction(filter: any, options?: ParanoiaDeleteOptions): Promise<mongo.DeleteResult>
+
+  /**
+   * Watch the collection like Model.watch(), with every change event classified in paranoiaOperation
+   * @param pipeline - Stages run after the classification, e.g. { $match: { paranoiaOperation: 'softDelete' } }
+   * @param options - Options of the underlying change stream, such as resumeAfter or fullDocument
+   */
+  watchParanoia<T extends mongo.Document = any>(
+    pipeline?: Array<Record<string, unknown>>,
+    options?: mongo.ChangeStreamOptions & { hydrate?: boolean },
+  ): mongo.ChangeStream<T, ParanoiaChangeEvent<T>>
+}
+
+/**
+ * Kind of write a change event stands for
+ * - "insert": a document was inserted
+ * - "update": a document was updated or replaced without changing its deletion state
+ * - "softDelete": a document was soft deleted (or scheduled for deletion with the scheduled option)
+ * - "restore": a soft-deleted document was restored
+ * - "hardDelete": a document was permanently removed
+ */
+export type ParanoiaChangeOperation = 'insert' | 'update' | 'softDelete' | 'restore' | 'hardDelete'
+
+/**
+ * Change event emitted by watchParanoia(). Events that are not about a document (drop, invalidate, ...)
+ * keep their operationType as paranoiaOperation
+ */
+export type ParanoiaChangeEvent<T extends mongo.Document = any> = mongo.ChangeStreamDocument<T> & {
+  paranoiaOperation:
+    | ParanoiaChangeOperation
+    | Exclude<mongo.ChangeStreamDocument['operationType'], 'insert' | 'update' | 'replace' | 'delete'>
+}
+
+/**
+ * Options for listing soft-deleted documents with trash()
+ */
+export type ParanoiaTrashOptions = {
+  /**
+   * Page to return, a positive integer starting at 1
+   * @default 1
+   */
+  page?: number
+
+  /**
+   * Number of documents per page, a positive integer
+   * @default 20
+   */
+  limit?: number
+
+  /**
+   * Only list documents deleted by this actor (requires deletedBy)
+   */
+  deletedBy?: any
+
+  /**
+   * Only list documents deleted at or after this date (requires deletedAt)
+   */
+  since?: Date
+
+  /**
+   * Only list documents deleted at or before this date (requires deletedAt)
+   */
+  until?: Date
+
+  /**
+   * Sort order, defaults to the most recently deleted first
+   */
+  sort?: string | Record<string, 1 | -1>
+
+  /**
+   * Session to run the queries in
+   */
+  session?: ClientSession
+}
+
+/**
+ * A page of soft-deleted documents returned by trash()
+ */
+export type ParanoiaTrashResult<T = any> = {
+  /**
+   * Documents on the requested page
+   */
+  docs: T[]
+
+  /**
+   * Number of soft-deleted documents matching the filters
+   */
+  total: number
+
+  /**
+   * Requested page, starting at 1
+   */
+  page: number
+
+  /**
+   * Number of documents per page
+   */
+  limit: number
+
+  /**
+   * Number of pages
+   */
+  pages: number
+}
+
+/**
+ * Counts of soft-deleted documents returned by trashStats()
+ */
+export type ParanoiaTrashStats = {
+  /**
+   * Number of soft-deleted documents
+   */
+  total: number
+
+  /**
+   * Counts per day of deletion (YYYY-MM-DD, UTC), oldest day first
+   */
+  byDay: { day: string; count: number }[]
+
+  /**
+   * Counts per actor, largest count first
+   */
+  byActor: { actor: any; count: number }[]
+}
+
+/**
+ * One entry of the audit trail kept by the audit option
+ */
+export type ParanoiaAuditEntry = {
+  /**
+   * Operation that was performed
+   */
+  action: 'softDelete' | 'restore' | 'forceDelete'
+
+  /**
+   * Who performed the operation
+   */
+  actor: any
+
+  /**
+   * Why the document was deleted (soft delete only)
+   */
+  reason: string | null
+
+  /**
+   * Batch the document was deleted in, or the batches a restore was limited to
+   */
+  deletionBatch: string | string[] | null
+
+  /**
+   * When the operation was performed
+   */
+  timestamp: Date
+}
+
+/**
+ * Options for purging soft-deleted documents
+ */
+export type ParanoiaPurgeOptions = {
+  /**
+   * Only purge documents whose deletedAt is before this date
+   */
+  olderThan?: Date
+
+  /**
+   * Session to run the purge in
+   */
+  session?: ClientSession
+}
+
+/**
+ * Extra options accepted by the soft delete statics and the softDelete instance method
+ *
+ * @example
+ * ```typescript
+ * await User.deleteOne({ _id: userId }, { deletedBy: adminId, deleteReason: 'spam' })
+ * ```
+ */
+export type ParanoiaDeleteOptions = {
+  /**
+   * Who performed the deletion, stored in deletedByField (requires deletedBy option)
+   */
+  deletedBy?: any
+
+  /**
+   * Model name of the actor, stored in deletedByRefPath (requires deletedByRefPath option)
+   */
+  deletedByModel?: string
+
+  /**
+   * Why the record was deleted, stored in deleteReasonField (requires deleteReason option)
+   */
+  deleteReason?: string
+
+  /**
+   * Permanently remove the matching documents instead of soft deleting them
+   */
+  forceDelete?: boolean
+
+  /**
+   * Tag the deleted documents with this batch id. Without it, only models with cascade generate one
+   */
+  deletionBatch?: string
+
+  /**
+   * Schedule the deletion for this date instead of deleting right away (requires scheduled)
+   */
+  deleteAt?: Date
+
+  /**
+   * Session to run the deletion and its cascades in
+   */
+  session?: ClientSession
+}
+
+/**
+ * Extra options accepted by the restore static and instance methods
+ */
+export type ParanoiaRestoreOptions = {
+  /**
+   * Who performed the restore, stored in restoredByField (requires restoredBy option)
+   */
+  restoredBy?: any
+
+  /**
+   * Only restore documents deleted in the given batch(es)
+   */
+  deletionBatch?: string | string[]
+
+  /**
+   * Session to run the restore and its cascades in
+   */
+  session?: ClientSession
+}
+
+/**
+ * Soft delete and restore operations accepted by Model.bulkWrite, the session comes from the bulkWrite options
+ * Typed through ParanoiaStatics.bulkWrite, so models typed with ParanoiaStatics take them without a cast
+ * Hooks, audit and events see the ids matched before the write, archive storage and cascade are not supported
+ *
+ * @example
+ * ```typescript
+ * await User.bulkWrite([
+ *   { deleteOne: { filter: { _id: spamId }, deleteReason: 'spam' } },
+ *   { restoreMany: { filter: { team: teamId }, restoredBy: adminId } },
+ * ])
+ * ```
+ */
+export type ParanoiaBulkWriteOperation =
+  | { deleteOne: { filter: any } & Omit<ParanoiaDeleteOptions, 'session'> }
+  | { deleteMany: { filter: any } & Omit<ParanoiaDeleteOptions, 'session'> }
+  | { restoreOne: { filter: any } & Omit<ParanoiaRestoreOptions, 'session'> }
+  | { restoreMany: { filter: any } & Omit<ParanoiaRestoreOptions, 'session'> }
+
+/**
+ * A child model that is soft deleted and restored together with its parent
+ */
+export type ParanoiaCascadeOption = {
+  /**
+   * Name of the child model (must also use the Paranoia plugin)
+   */
+  model: string
+
+  /**
+   * Path on the child model that references the parent's _id
+   */
+  foreignField: string
+}
+
+/**
+ * Middleware Paranoia runs around its operations, apart from the softDelete, restore and forceDelete methods
+ */
+export type ParanoiaHookName = 'paranoia:softDelete' | 'paranoia:restore' | 'paranoia:forceDelete'
+
+/**
+ * Middleware function of a ParanoiaHookName, called with the model as `this`
+ */
+export type ParanoiaHook<TModel = any> = (this: TModel, context: ParanoiaHookContext) => void | Promise<void>
+
+/**
+ * Argument passed to softDelete, restore and forceDelete middleware and events
+ *
+ * @example
+ * ```typescript
+ * userSchema.post('paranoia:softDelete', function (context) {
+ *   cache.invalidate(context.ids)
+ * })
+ * ```
+ */
+export type ParanoiaHookContext = {
+  /**
+   * Filter the operation was called with
+   */
+  filter: any
+
+  /**
+   * _id of every document affected by the operation
+   */
+  ids: any[]
+
+  /**
+   * Who performed the operation, as recorded in deletedBy/restoredBy
+   */
+  actor?: any
+
+  /**
+   * Why the documents were deleted (soft delete only)
+   */
+  deleteReason?: string
+
+  /**
+   * Batch the documents are deleted in, or the batches a restore is limited to
+   */
+  deletionBatch?: string | string[]
+
+  /**
+   * Session the operation runs in
+   */
+  session?: ClientSession
+
+  /**
+   * Document the operation was called on, when called through an instance method
+   */
+  document?: any
+
+  /**
+   * Result of the operation, set for post middleware and events
+   */
+  result?: any
+}
+
+/**
+ * Enhanced Model interface with Paranoia plugin methods
+ * Use this when defining your model type for full type safety
+ *
+ * @example
+ * ```typescript
+ * interface IUser {
+ *   name: string;
+ *   email: string;
+ * }
+ *
+ * type UserDocument = SoftDeleteDocument<IUser>;
+ * type UserModel = ParanoiaModel<UserDocument, ParanoiaQueryHelpers>;
+ *
+ * const userSchema = new Schema<UserDocument, UserModel, {}, ParanoiaQueryHelpers>({
+ *   name: String,
+ *   email: String
+ * });
+ *
+ * userSchema.plugin(Paranoia);
+ * const User = model<UserDocument, UserModel>('User', userSchema);
+ * ```
+ */
+export interface ParanoiaModel<
+  T,
+  TQueryHelpers = {},
+  TInstanceMethods = {},
+  TVirtuals = {},
+  THydratedDocumentType = HydratedDocument<T, TVirtuals & TInstanceMethods, TQueryHelpers>,
+  TSchema = any,
+>
+  extends
+    Model<T, TQueryHelpers, TInstanceMethods, TVirtuals, THydratedDocumentType, TSchema>,
+    Omit<ParanoiaStatics, 'bulkWrite'> {
+  // Mongoose's overloads, then the one taking ParanoiaBulkWriteOperation
+  bulkWrite: Model<T, TQueryHelpers, TInstanceMethods, TVirtuals, THydratedDocumentType, TSchema>['bulkWrite'] &
+    ParanoiaStatics['bulkWrite']
+}
+
+/**
+ * Options for configuring the Paranoia plugin
+ */
+export type ParanoiaOptions = {
+  /**
+   * Enable deletedAt timestamp field
+   * @default true
+   */
+  deletedAt?: boolean
+
+  /**
+   * Enable deletedBy field to track who deleted the record
+   * @default false
+   */
+  deletedBy?: boolean
+
+  /**
+   * Type of the deletedBy field, either the name of a mongoose schema type (e.g., 'ObjectId', 'String', 'Number')
+   * or a schema type definition such as `{ id: Number, name: String, kind: String }`
+   * Unknown type names are rejected
+   * @default 'ObjectId'
+   */
+  deletedByType?: string | Record<string, any>
+
+  /**
+   * Model referenced by the deletedBy and restoredBy fields
+   * @default 'User' when deletedByType is 'ObjectId'
+   */
+  deletedByRef?: string
+
+  /**
+   * Path holding the model name of a polymorphic deletedBy actor, used as its refPath
+   * The path is added as a String field and set from the deletedByModel delete option
+   */
+  deletedByRefPath?: string
+
+  /**
+   * Enable restoredBy field to track who restored the record
+   * Uses the same type as deletedByType
+   * @default false
+   */
+  restoredBy?: boolean
+
+  /**
+   * Resolve the current actor when none is passed explicitly to a delete or restore call
+   * Defaults to the actor set with runWithActor
+   * @default getCurrentActor
+   */
+  getActor?: () => any
+
+  /**
+   * Enable deleteReason field to record why the record was deleted
+   * Pass an array of strings to restrict the reason to a fixed set of values
+   * @default false
+   */
+  deleteReason?: boolean | string[]
+
+  /**
+   * Number of days after which soft-deleted documents are removed automatically
+   * Creates a TTL index on deletedAtField that only applies to deleted documents (requires deletedAt)
+   * Must be a positive, finite number of days
+   */
+  retention?: number
+
+  /**
+   * Child models to soft delete and restore together with this model
+   * Cascaded documents share the parent's deletion batch, so restoring the parent
+   * only revives children that were deleted along with it
+   * @default []
+   */
+  cascade?: ParanoiaCascadeOption[]
+
+  /**
+   * Rewrite $lookup stages in this model's aggregations so rows of joined paranoid
+   * collections in "Default" mode are excluded when deleted
+   * @default false
+   */
+  lookup?: boolean
+
+  /**
+   * Refuse to save soft-deleted documents and to update deleted rows, throwing a ParanoiaError
+   * In "Default" mode only updates that can't reach an active row are refused
+   * Deleting and restoring are still allowed; use withDeleted() or save({ withDeleted: true }) to bypass
+   * @default false
+   */
+  readOnlyWhenDeleted?: boolean
+
+  /**
+   * Make unique indexes ignore soft-deleted documents by turning them into partial indexes
+   * - true: rewrite every unique index declared on the schema
+   * - string[]: add a unique index over active documents for each listed path
+   * Not supported with scheduled, a partial index can't cover documents scheduled for a future deletion
+   * @default false
+   */
+  uniqueActive?: boolean | string[]
+
+  /**
+   * Filter active records with { deleted: false } instead of { deleted: { $ne: true } } so queries can use the
+   * deletedField index. Only enable once every document has the field, see migrateParanoia()
+   * @default false
+   */
+  strictFilter?: boolean
+
+  /**
+   * Derive the deletion state from deletedAtField alone instead of a boolean deletedField, e.g. for
+   * collections migrated from Rails' paranoia gem. deletedField becomes a virtual (requires deletedAt)
+   * @default false
+   */
+  timestampOnly?: boolean
+
+  /**
+   * Allow deletedAt in the future: documents stay active until that time has passed and a scheduled
+   * deletion can be cancelled with restore(). Schedule one with the deleteAt option (requires timestampOnly)
+   * @default false
+   */
+  scheduled?: boolean
+
+  /**
+   * Number of days after deletion during which a document can still be restored (requires deletedAt)
+   * Restoring it later throws a ParanoiaError, check with canRestore() first
+   */
+  undoWindow?: number
 
-/**
- * Enhanced Model interface with Paranoia plugin methods
- * Use this when defining your model type for full type safety
- *
- * @example
- * ```typescript
- * interface IUser {
- *   name: string;
- *   email: string;
- * }
- *
- * type UserDocument = SoftDeleteDocument<IUser>;
- * type UserModel = ParanoiaModel<UserDocument, ParanoiaQueryHelpers>;
- *
- * const userSchema = new Schema<UserDocument, UserModel, {}, ParanoiaQueryHelpers>({
- *   name: String,
- *   email: String
- * });
- *
- * userSchema.plugin(Paranoia);
- * const User = model<UserDocument, UserModel>('User', userSchema);
- * ```
- */
-export interface ParanoiaModel<
-  T,
-  TQueryHelpers = {},
-  TInstanceMethods = {},
-  TVirtuals = {},
-  THydratedDocumentType = HydratedDocument<T, TVirtuals & TInstanceMethods, TQueryHelpers>,
-  TSchema = any,
-> extends Model<T, TQueryHelpers, TInstanceMethods, TVirtuals, THydratedDocumentType, TSchema>, ParanoiaStatics {}
+  /**
+   * Where soft-deleted documents are kept
+   * - "flag": stay in the collection and are marked with deletedField
+   * - "archive": move to a companion archive collection inside a transaction (requires a replica set)
+   *   so queries on the collection no longer have to filter them out. Only supports the "Default" mode
+   * @default "flag"
+   */
+  storage?: 'flag' | 'archive'
 
-/**
- * Options for configuring the Paranoia plugin
- */
-export type ParanoiaOptions = {
   /**
-   * Enable deletedAt timestamp field
-   * @default true
+   * Name of the collection holding deleted documents in "archive" storage
+   * @default '<collection>_archive'
    */
-  deletedAt?: boolean
+  archiveCollection?: string
 
   /**
-   * Enable deletedBy field to track who deleted the record
+   * Emit softDelete, restore and forceDelete events with a ParanoiaHookContext on the model
    * @default false
    */
-  deletedBy?: boolean
+  events?: boolean
 
   /**
-   * Type of the deletedBy field (e.g., 'ObjectId', 'String')
-   * @default 'ObjectId'
+   * Keep an audit trail of every soft delete, restore and force delete, read it with Model.deletionHistory(id)
+   * - "embedded": append entries to an array on the document (gone once the document is force deleted)
+   * - "collection": insert entries into a collection shared by all models
+   */
+  audit?: 'embedded' | 'collection'
+
+  /**
+   * Name of the array holding the audit trail in "embedded" audit
+   * @default 'deletionHistory'
+   */
+  auditField?: string
+
+  /**
+   * Name of the collection holding the audit trail in "collection" audit
+   * @default 'paranoia_audit'
    */
-  deletedByType?: string
+  auditCollection?: string
 
   /**
-   * Configure how the plugin handles queries by default
-   * - "Scope": Must explicitly use .active or .deleted query helpers
-   * - "Default": Automatically filter deleted records on all queries (use .deleted to include them)
-   * - "All": Return all records by default (use .active to filter)
+   * Configure how the plugin handles queries by default, see ParanoiaActiveArchive
+   * Overridden per query with the paranoia query option and per request with runWithActiveArchive
    * @default "Default"
    */
-  activeArchive?: 'Scope' | 'Default' | 'All'
+  activeArchive?: ParanoiaActiveArchive
 
   /**
    * Name of the deleted field
@@ -112,6 +820,24 @@ export type ParanoiaOptions = {
    * @default 'deletedBy'
    */
   deletedByField?: string
+
+  /**
+   * Name of the deleteReason field
+   * @default 'deleteReason'
+   */
+  deleteReasonField?: string
+
+  /**
+   * Name of the restoredBy field
+   * @default 'restoredBy'
+   */
+  restoredByField?: string
+
+  /**
+   * Name of the deletionBatch field
+   * @default 'deletionBatch'
+   */
+  deletionBatchField?: string
 }
 
 /**
@@ -142,10 +868,43 @@ export interface ParanoiaDocument {
    */
   deletedBy?: any
 
+  /**
+   * Why the document was deleted (if deleteReason is enabled)
+   */
+  deleteReason?: string
+
+  /**
+   * Id shared by all documents deleted in the same operation, including cascaded children.
+   * Only stored on models with cascade or when a batch id is passed to the delete
+   */
+  deletionBatch?: string
+
+  /**
+   * Soft delete this document
+   * @param options - Optional actor and reason to record
+   */
+  softDelete(options?: ParanoiaDeleteOptions): Promise<this>
+
+  /**
+   * Reference to who restored the document (if restoredBy is enabled)
+   */
+  restoredBy?: any
+
   /**
    * Restore a soft-deleted document
+   * @param options - Optional actor to record
+   */
+  restore(options?: ParanoiaRestoreOptions): Promise<this>
+
+  /**
+   * Whether the document is deleted (or scheduled for deletion) and still within the undo window
+   */
+  canRestore(): boolean
+
+  /**
+   * Permanently remove this document from the database
    */
-  restore(): Promise<this>
+  forceDelete(options?: Record<string, any>): Promise<this>
 }
 
 /**
@@ -164,88 +923,936 @@ export interface ParanoiaDocument {
  */
 export type SoftDeleteDocument<T> = T & ParanoiaDocument
 
+// Middleware a compiled model keeps as `Model.hooks`, left out of mongoose's typings
+type ModelMiddleware = {
+  hasHooks(name: string): boolean
+  execPre(name: string, context: unknown, args: unknown[]): Promise<unknown[]>
+  execPost(name: string, context: unknown, args: unknown[]): Promise<unknown[]>
+}
+
+// Flags the aggregate middleware reads to decide which records to include
+type AggregateDeletedFlags = { _includeDeleted?: boolean; _onlyDeleted?: boolean }
+
+// Aggregate has no per-schema helpers like schema.query, so its helpers are patched onto the prototype
+// when this module is imported, for every aggregation of every connection
+Aggregate.prototype.withDeleted = function (this: Aggregate<unknown> & AggregateDeletedFlags) {
+  this._includeDeleted = true
+  return this
+}
+
+Aggregate.prototype.onlyDeleted = function (this: Aggregate<unknown> & AggregateDeletedFlags) {
+  this._onlyDeleted = true
+  return this
+}
+
+// Stages that must open a pipeline; the deleted filter is inserted right after them
+const leadingStages = ['$geoNear', '$search', '$vectorSearch']
+
+// Stages that do not read the collection's documents, so there is nothing to filter
+const unfilterableStages = [
+  '$collStats',
+  '$indexStats',
+  '$searchMeta',
+  '$listSearchIndexes',
+  '$planCacheStats',
+  '$changeStream',
+  '$currentOp',
+  '$listSessions',
+  '$documents',
+]
+
+// Resolved options of every schema the plugin was applied to
+const paranoiaSchemas = new WeakMap<Schema<any, any, any, any>, ParanoiaOptions>()
+
+// Single nested and array schemas embedded in a schema the plugin reached
+const embeddedSchemas = new WeakSet<Schema<any, any, any, any>>()
+
+function markEmbeddedSchemas(schema: Schema<any, any, any, any>) {
+  for (const child of schema.childSchemas) {
+    embeddedSchemas.add(child.schema)
+  }
+}
+
+// The same options by schema $id. Model.discriminator() clones the schema it is given by default,
+// the clone keeps the id of its source as $originalSchemaId
+const paranoiaSchemaIds = new Map<number, ParanoiaOptions>()
+
+// Options of the plugin in charge of a schema. Discriminator schemas without their own
+// application of the plugin are handled by the one of their base schema
+function paranoiaOptionsOf(schema: any): ParanoiaOptions | undefined {
+  if (!schema) {
+    return undefined
+  }
+  return (
+    paranoiaSchemas.get(schema) ??
+    paranoiaSchemaIds.get(schema.$originalSchemaId) ??
+    paranoiaOptionsOf(schema._baseSchema)
+  )
+}
+
+// Schema of the model a middleware runs for
+function middlewareSchema(context: any) {
+  if (context instanceof Aggregate) {
+    return (context as any).model()?.schema
+  }
+  // Documents, then models (bulkWrite), then queries
+  return context.$__schema ?? (typeof context === 'function' ? context.schema : context.model?.schema)
+}
+
+// Field holding the deletion state, the conditions matching active and deleted documents,
+// and the partial index filter covering active documents
+function deletionState(opts: ParanoiaOptions) {
+  // Scheduled deletions compare deletedAt against the current time whenever a condition is used
+  if (opts.scheduled) {
+    return {
+      field: opts.deletedAtField!,
+      get active() {
+        return { $not: { $lte: new Date() } }
+      },
+      get deleted() {
+        return { $lte: new Date() }
+      },
+      activeIndex: { $type: 'null' },
+      isDeleted: (value: any) => value != null && value <= new Date(),
+    }
+  }
+  if (opts.timestampOnly) {
+    return {
+      field: opts.deletedAtField!,
+      active: null,
+      deleted: { $ne: null },
+      activeIndex: { $type: 'null' },
+      isDeleted: (value: any) => value != null,
+    }
+  }
+  return {
+    field: opts.deletedField!,
+    active: opts.strictFilter ? false : { $ne: true },
+    deleted: true,
+    activeIndex: false,
+    isDeleted: (value: any) => value === true,
+  }
+}
+
+// Children of a scheduled deletion are scheduled for the same date, so every model down the cascade needs scheduled
+function assertScheduledCascade(connection: any, options: ParanoiaOptions, seen = new Set<string>()) {
+  for (const child of options.cascade ?? []) {
+    if (seen.has(child.model)) {
+      continue
+    }
+    seen.add(child.model)
+    const childOpts = paranoiaOptionsOf(connection.model(child.model).schema)
+    if (!childOpts?.scheduled) {
+      throw new Error(`cascade model "${child.model}" requires the scheduled option for deleteAt option`)
+    }
+    assertScheduledCascade(connection, childOpts, seen)
+  }
+}
+
+// paranoia option of a query or aggregation. It is moved off the options on first read so it never reaches the driver
+function activeArchiveOption(operation: any): ParanoiaActiveArchive | undefined {
+  const options = operation instanceof Aggregate ? operation.options : operation.getOptions()
+  if (options.paranoia !== undefined) {
+    operation._activeArchive = options.paranoia
+    delete options.paranoia
+  }
+  return operation._activeArchive
+}
+
+// Prepend a deleted filter to $lookup stages joining collections of paranoid models in "Default" mode
+function excludeDeletedFromLookups(pipeline: any[], connection: any, activeArchive?: ParanoiaActiveArchive) {
+  for (const stage of pipeline) {
+    if (stage?.$facet) {
+      for (const facet of Object.values<any[]>(stage.$facet)) {
+        excludeDeletedFromLookups(facet, connection, activeArchive)
+      }
+      continue
+    }
+
+    const lookup = stage?.$lookup
+    if (!lookup?.from) {
+      continue
+    }
+    if (lookup.pipeline) {
+      excludeDeletedFromLookups(lookup.pipeline, connection, activeArchive)
+    }
+
+    const target: any = Object.values(connection.models).find(
+      (model: any) => model.collection.collectionName === lookup.from && paranoiaOptionsOf(model.schema),
+    )
+    const targetOpts = target && paranoiaOptionsOf(target.schema)
+    if (!targetOpts || (activeArchive ?? getCurrentActiveArchive() ?? targetOpts.activeArchive) !== 'Default') {
+      continue
+    }
+
+    // Leave lookups alone that already filter on the deleted field
+    const state = deletionState(targetOpts)
+    if (lookup.pipeline?.[0]?.$match?.[state.field] !== undefined) {
+      continue
+    }
+
+    stage.$lookup = {
+      ...lookup,
+      pipeline: [{ $match: { [state.field]: state.active } }, ...(lookup.pipeline ?? [])],
+    }
+  }
+}
+
 export default function Paranoia<
   DocType = any,
   TQueryHelpers = {},
 >(
-  schema: Schema<DocType, any, any, TQueryHelpers & ParanoiaQueryHelpers>,
+  schema: Schema<DocType, any, any, TQueryHelpers>,
   options: ParanoiaOptions = {},
 ) {
+  markEmbeddedSchemas(schema)
+
+  // Schemas opt out of a global registration or override its options through the paranoia schema option
+  const schemaOptions = schema.options.paranoia
+  if (schemaOptions === false) {
+    return
+  }
+
+  // Mongoose passes a global registration down to embedded schemas, which only opt in through the paranoia schema
+  // option or their own application of the plugin. Mongoose flags a schema before running global plugins on it
+  const globalPass = (schema as { $globalPluginsApplied?: boolean }).$globalPluginsApplied
+  if (globalPass && embeddedSchemas.has(schema) && (!schemaOptions || paranoiaSchemas.has(schema))) {
+    return
+  }
+
   // Set default options
   const opts = {
     deletedAt: true,
     deletedBy: false,
-    deletedByType: 'ObjectId',
+    deletedByType: 'ObjectId' as string | Record<string, any>,
     activeArchive: 'Default' as const,
     deletedField: 'deleted',
     deletedAtField: 'deletedAt',
     deletedByField: 'deletedBy',
+    deleteReason: false as boolean | string[],
+    deleteReasonField: 'deleteReason',
+    restoredBy: false,
+    restoredByField: 'restoredBy',
+    getActor: getCurrentActor as () => any,
+    cascade: [] as ParanoiaCascadeOption[],
+    deletionBatchField: 'deletionBatch',
+    lookup: false,
+    readOnlyWhenDeleted: false,
+    uniqueActive: false as boolean | string[],
+    storage: 'flag' as 'flag' | 'archive',
+    events: false,
+    auditField: 'deletionHistory',
+    auditCollection: 'paranoia_audit',
     ...options,
+    ...schemaOptions,
+  }
+
+  const archiveStorage = opts.storage === 'archive'
+  if (archiveStorage && opts.activeArchive !== 'Default') {
+    throw new Error('archive storage only supports activeArchive "Default"')
+  }
+
+  if (opts.timestampOnly && !opts.deletedAt) {
+    throw new Error('deletedAt is required for timestampOnly option')
+  }
+  if (opts.scheduled && !opts.timestampOnly) {
+    throw new Error('timestampOnly is required for scheduled option')
+  }
+  if (opts.scheduled && archiveStorage) {
+    throw new Error('scheduled option is not supported with archive storage')
+  }
+  if (opts.scheduled && opts.uniqueActive) {
+    throw new Error('uniqueActive option is not supported with scheduled option')
+  }
+  if (opts.retention !== undefined) {
+    if (!Number.isFinite(opts.retention) || opts.retention <= 0) {
+      throw new Error('retention option must be a positive number of days')
+    }
+    if (!opts.deletedAt) {
+      throw new Error('deletedAt is required for retention option')
+    }
+    if (archiveStorage) {
+      throw new Error('retention option is not supported with archive storage')
+    }
+  }
+  if (opts.undoWindow !== undefined && !opts.deletedAt) {
+    throw new Error('deletedAt is required for undoWindow option')
+  }
+  if (typeof opts.deletedByType === 'string' && !Object.hasOwn(Schema.Types, opts.deletedByType)) {
+    throw new Error(`Unknown deletedByType "${opts.deletedByType}"`)
+  }
+  if (opts.deletedByRef && opts.deletedByRefPath) {
+    throw new Error('deletedByRef and deletedByRefPath options cannot be combined')
+  }
+
+  // The plugin reaches a schema twice when it is registered globally and on the schema as well
+  const applied = paranoiaSchemas.get(schema)
+  if (applied) {
+    if (isDeepStrictEqual(applied, opts)) {
+      return
+    }
+    throw new Error(
+      'Paranoia plugin is already applied to this schema with different options, use the paranoia schema option instead',
+    )
+  }
+
+  paranoiaSchemas.set(schema, opts)
+  paranoiaSchemaIds.set((schema as { $id?: number }).$id!, opts)
+  const state = deletionState(opts)
+
+  // Middleware is inherited by discriminators, leave it to the discriminator's own application of the plugin
+  const owned = <T extends (this: any, ...args: any[]) => any>(fn: T) =>
+    function (this: any, ...args: any[]) {
+      const owner = paranoiaOptionsOf(middlewareSchema(this))
+      if (owner && owner !== opts) {
+        return
+      }
+      return fn.apply(this, args)
+    } as T
+
+  // Add the 'deleted' field, or a virtual derived from deletedAt in timestampOnly mode
+  if (opts.timestampOnly) {
+    schema.virtual(opts.deletedField).get(function (this: any) {
+      return state.isDeleted(this.get(opts.deletedAtField))
+    })
+  } else {
+    schema.add({
+      [opts.deletedField]: {
+        type: Boolean,
+        default: false,
+        index: true,
+      },
+    } as any)
+  }
+
+  // Add 'deletedAt' field if enabled, indexed when it holds the deletion state
+  if (opts.deletedAt) {
+    schema.add({
+      [opts.deletedAtField]: {
+        type: Date,
+        default: null,
+        ...(opts.timestampOnly && { index: true }),
+      },
+    } as any)
+  }
+
+  // Let MongoDB expire soft-deleted documents once the retention period has passed
+  if (opts.retention !== undefined) {
+    schema.index(
+      { [opts.deletedAtField]: 1 },
+      {
+        expireAfterSeconds: opts.retention * 24 * 60 * 60,
+        // Active documents have no deletedAt date to expire in timestampOnly mode
+        ...(!opts.timestampOnly && { partialFilterExpression: { [opts.deletedField]: true } }),
+      },
+    )
+  }
+
+  // Add 'deletionBatch' field to parents of a cascade, only stored once a document gets deleted
+  const batched = opts.cascade.length > 0
+  if (batched) {
+    schema.add({
+      [opts.deletionBatchField]: {
+        type: String,
+      },
+    } as any)
+  }
+
+  // Rewrite unique indexes so they only cover active documents
+  if (opts.uniqueActive) {
+    const activeFilter = { [state.field]: state.activeIndex }
+    const schemaIndexes: [any, any][] = (schema as any)._indexes
+
+    const paths = Array.isArray(opts.uniqueActive) ? [...opts.uniqueActive] : []
+    if (opts.uniqueActive === true) {
+      schema.eachPath((path, schemaType: any) => {
+        if (schemaType._index?.unique) {
+          paths.push(path)
+        }
+      })
+      for (const [, indexOptions] of schemaIndexes) {
+        if (indexOptions.unique && !indexOptions.partialFilterExpression) {
+          indexOptions.partialFilterExpression = activeFilter
+        }
+      }
+    }
+
+    for (const path of paths) {
+      const schemaType: any = schema.path(path)
+      if (!schemaType) {
+        throw new Error(`uniqueActive path "${path}" does not exist in schema`)
+      }
+
+      // Drop the path level unique index in favor of the partial one
+      if (schemaType._index && typeof schemaType._index === 'object') {
+        const { unique: _unique, ...index } = schemaType._index
+        schemaType._index = Object.keys(index).length ? index : null
+      }
+      schema.index({ [path]: 1 }, { unique: true, partialFilterExpression: activeFilter })
+    }
+  }
+
+  const deletedByFieldType = {
+    type: typeof opts.deletedByType === 'string' ? (Schema.Types as any)[opts.deletedByType] : opts.deletedByType,
+  }
+  const deletedByRef = opts.deletedByRef ?? (opts.deletedByType === 'ObjectId' ? 'User' : undefined)
+
+  // Add 'deletedBy' field if enabled
+  if (opts.deletedBy) {
+    schema.add({
+      [opts.deletedByField]: {
+        ...deletedByFieldType,
+        ...(opts.deletedByRefPath ? { refPath: opts.deletedByRefPath } : deletedByRef && { ref: deletedByRef }),
+        default: null,
+      },
+    } as any)
+    if (opts.deletedByRefPath && !schema.path(opts.deletedByRefPath)) {
+      schema.add({
+        [opts.deletedByRefPath]: {
+          type: String,
+          default: null,
+        },
+      } as any)
+    }
+  }
+
+  // Add 'restoredBy' field if enabled, the refPath only describes the deleting actor
+  if (opts.restoredBy) {
+    schema.add({
+      [opts.restoredByField]: {
+        ...deletedByFieldType,
+        ...(!opts.deletedByRefPath && deletedByRef && { ref: deletedByRef }),
+        default: null,
+      },
+    } as any)
+  }
+
+  // Add 'deleteReason' field if enabled
+  if (opts.deleteReason) {
+    schema.add({
+      [opts.deleteReasonField]: {
+        type: String,
+        ...(Array.isArray(opts.deleteReason) && { enum: opts.deleteReason }),
+        default: null,
+      },
+    } as any)
+  }
+
+  // Add the audit trail array if embedded audit is enabled
+  if (opts.audit === 'embedded') {
+    schema.add({
+      [opts.auditField]: [
+        new Schema(
+          {
+            action: String,
+            actor: Schema.Types.Mixed,
+            reason: String,
+            deletionBatch: Schema.Types.Mixed,
+            timestamp: Date,
+          },
+          { _id: false, paranoia: false },
+        ),
+      ],
+    } as any)
+  }
+
+  // Mongoose walks the sub-schemas after the plugin, the actor and audit paths added above included
+  markEmbeddedSchemas(schema)
+
+  // Hide soft-deleted items of document arrays whose schema uses the plugin when serializing to JSON,
+  // unless toJSON({ withDeleted: true }) is called
+  const paranoidArrays: [string[], ReturnType<typeof deletionState>][] = []
+  schema.eachPath((path, schemaType: any) => {
+    const childOpts = schemaType.$isMongooseDocumentArray && paranoiaOptionsOf(schemaType.schema)
+    if (childOpts) {
+      paranoidArrays.push([path.split('.'), deletionState(childOpts)])
+    }
+  })
+  if (paranoidArrays.length) {
+    // A method instead of a transform in the toJSON schema option, which a later schema.set('toJSON') replaces.
+    // Items are matched by position, so transforms may drop their deletion fields
+    const toJSON = schema.methods.toJSON ?? Document.prototype.toJSON
+    schema.methods.toJSON = function (this: any, options?: any) {
+      const ret = toJSON.call(this, options)
+      for (const [segments, childState] of paranoidArrays) {
+        const parent = segments.slice(0, -1).reduce((value, key) => value?.[key], ret)
+        const key = segments[segments.length - 1]!
+        const items = this.get(segments.join('.'))
+        if (!options?.withDeleted && Array.isArray(parent?.[key]) && Array.isArray(items)) {
+          parent[key] = parent[key].filter(
+            (_item: any, index: number) => !childState.isDeleted(items[index]?.get(childState.field)),
+          )
+        }
+      }
+      return ret
+    }
+  }
+
+  // An explicit actor always wins over the ambient one
+  const resolveActor = (explicit: any) => (explicit !== undefined ? explicit : opts.getActor())
+
+  // Build the $set payload for a soft delete of the model's documents, picking actor and reason out of the caller's options
+  const buildDeleteUpdate = (model: any, options?: any) => {
+    const {
+      deletedBy,
+      deletedByModel,
+      deleteReason,
+      deletionBatch,
+      deleteAt,
+      forceDelete: _forceDelete,
+      ...queryOptions
+    } = options ?? {}
+    if (deleteAt !== undefined && !opts.scheduled) {
+      throw new Error('scheduled is required for deleteAt option')
+    }
+    // Refuse before anything is deleted rather than when the cascade reaches a child
+    if (deleteAt !== undefined) {
+      assertScheduledCascade(model.db, opts)
+    }
+    const update: any = {
+      ...(!opts.timestampOnly && { [opts.deletedField]: true }),
+      ...(opts.deletedAt && { [opts.deletedAtField]: deleteAt ?? new Date() }),
+    }
+    const batch = deletionBatch ?? (batched ? randomUUID() : undefined)
+    if (batch !== undefined) {
+      update[opts.deletionBatchField] = batch
+    }
+    const actor = resolveActor(deletedBy)
+    if (opts.deletedBy && actor !== undefined) {
+      update[opts.deletedByField] = actor
+    }
+    if (opts.deletedBy && opts.deletedByRefPath) {
+      update[opts.deletedByRefPath] = deletedByModel ?? null
+    }
+    if (opts.deleteReason && deleteReason !== undefined) {
+      update[opts.deleteReasonField] = deleteReason
+    }
+    if (opts.restoredBy) {
+      update[opts.restoredByField] = null
+    }
+    return { update, queryOptions, actor, deleteReason, deleteAt }
+  }
+
+  // Build the $set payload for a restore, clearing deletion metadata and recording who restored
+  const buildRestoreUpdate = (options?: any) => {
+    const { restoredBy, deletionBatch, ...queryOptions } = options ?? {}
+    const actor = resolveActor(restoredBy)
+    const update: any = {
+      ...(!opts.timestampOnly && { [opts.deletedField]: false }),
+    }
+    // Documents restored by batch carry one even when their model has no cascade of its own
+    if (batched || deletionBatch !== undefined) {
+      update[opts.deletionBatchField] = null
+    }
+    if (opts.deletedAt) {
+      update[opts.deletedAtField] = null
+    }
+    if (opts.deletedBy) {
+      update[opts.deletedByField] = null
+    }
+    if (opts.deletedBy && opts.deletedByRefPath) {
+      update[opts.deletedByRefPath] = null
+    }
+    if (opts.deleteReason) {
+      update[opts.deleteReasonField] = null
+    }
+    if (opts.restoredBy) {
+      update[opts.restoredByField] = actor ?? null
+    }
+    return { update, queryOptions, deletionBatch, actor }
+  }
+
+  // Models without cascade have no deletionBatch path, yet store the batch a cascading parent passes on.
+  // Writes and filters carrying it bypass strict mode on them
+  const batchOptions = (batch: unknown) =>
+    !batched && batch !== undefined ? { strict: false, strictQuery: false } : {}
+
+  // Documents deleted before this date can no longer be restored
+  const undoDeadline = () => new Date(Date.now() - opts.undoWindow! * 24 * 60 * 60 * 1000)
+
+  // Narrow a restore filter to deleted documents of the given batch(es) that are still within the undo window
+  const buildRestoreFilter = (filter: any, deletionBatch?: string | string[]) => {
+    // Scheduled deletions that have not happened yet can be cancelled too
+    const restoreFilter = { ...filter, [state.field]: opts.scheduled ? { $ne: null } : state.deleted }
+    if (deletionBatch !== undefined) {
+      restoreFilter[opts.deletionBatchField] = Array.isArray(deletionBatch) ? { $in: deletionBatch } : deletionBatch
+    }
+    // Leave documents alone whose undo window has expired
+    if (opts.undoWindow !== undefined) {
+      restoreFilter[opts.deletedAtField] = { ...restoreFilter[opts.deletedAtField], $gte: undoDeadline() }
+    }
+    return restoreFilter
+  }
+
+  // Soft delete the active children of the given parents within the parents' batch
+  const cascadeDelete = async (model: any, ids: any[], update: any, options: any) => {
+    if (!ids.length) {
+      return
+    }
+    for (const child of opts.cascade) {
+      await model.db
+        .model(child.model)
+        .find({ [child.foreignField]: { $in: ids } })
+        .active()
+        .setOptions({
+          deletedBy: update[opts.deletedByField],
+          ...(opts.deletedByRefPath && { deletedByModel: update[opts.deletedByRefPath] }),
+          deleteReason: update[opts.deleteReasonField],
+          deletionBatch: update[opts.deletionBatchField],
+          // Children of a scheduled deletion are scheduled for the same time
+          ...(options?.deleteAt !== undefined && { deleteAt: options.deleteAt }),
+          ...(options?.session && { session: options.session }),
+        })
+        .deleteMany()
+    }
   }
 
-  // Add the 'deleted' field (always required)
-  schema.add({
-    [opts.deletedField]: {
-      type: Boolean,
-      default: false,
-      index: true,
-    },
-  } as any)
+  // Restore the children of the given parents that were deleted in one of the parents' batches
+  const cascadeRestore = async (model: any, ids: any[], batches: any[], update: any, options: any) => {
+    const deletionBatch = batches.filter((batch) => batch != null)
+    if (!ids.length || !deletionBatch.length) {
+      return
+    }
+    for (const child of opts.cascade) {
+      await model.db.model(child.model).restore(
+        { [child.foreignField]: { $in: ids } },
+        {
+          restoredBy: update[opts.restoredByField],
+          deletionBatch,
+          ...(options?.session && { session: options.session }),
+        },
+      )
+    }
+  }
 
-  // Add 'deletedAt' field if enabled
-  if (opts.deletedAt) {
-    schema.add({
-      [opts.deletedAtField]: {
-        type: Date,
-        default: null,
-      },
-    } as any)
+  // softDelete, restore and forceDelete middleware is registered under "paranoia:<operation>" so mongoose doesn't also
+  // wrap the instance methods and the restore static of the same name. Every compiled model, discriminators included,
+  // carries its own copy of its schema's hooks, which runs here with the model as `this` on every path
+  const modelHooks = (model: any): ModelMiddleware => model.hooks
+
+  // Whether anything listens to the operation, so the affected ids have to be looked up
+  const observed = (name: string, model: any) =>
+    opts.events || !!opts.audit || modelHooks(model).hasHooks(`paranoia:${name}`)
+
+  // Append the operation to the audit trail of every affected document
+  const recordAudit = async (name: string, model: any, context: ParanoiaHookContext) => {
+    if (!opts.audit || !context.ids.length) {
+      return
+    }
+    const entry = {
+      action: name,
+      actor: context.actor ?? null,
+      reason: context.deleteReason ?? null,
+      deletionBatch: context.deletionBatch ?? null,
+      timestamp: new Date(),
+    }
+
+    if (opts.audit === 'collection') {
+      await model.db.collection(opts.auditCollection).insertMany(
+        context.ids.map((id) => ({ ...entry, model: model.modelName, documentId: id })),
+        { session: context.session },
+      )
+      return
+    }
+
+    // A force deleted document takes its embedded history with it
+    if (name === 'forceDelete') {
+      return
+    }
+    const affected = model.find({ _id: { $in: context.ids } }).session(context.session ?? null)
+    await (archiveStorage && name === 'softDelete' ? affected.deleted() : affected.withDeleted()).updateMany(
+      {},
+      { $push: { [opts.auditField]: entry } },
+    )
   }
 
-  // Add 'deletedBy' field if enabled
-  if (opts.deletedBy) {
-    const deletedByFieldType =
-      opts.deletedByType === 'ObjectId' ? { type: Schema.Types.ObjectId, ref: 'User' } : { type: String }
+  // Run an operation wrapped in its middleware, then emit it as an event on the model
+  const runHooks = async (name: string, model: any, context: ParanoiaHookContext, action: () => Promise<any>) => {
+    const hooks = modelHooks(model)
+    await hooks.execPre(`paranoia:${name}`, model, [context])
+    context.result = await action()
+    await recordAudit(name, model, context)
+    await hooks.execPost(`paranoia:${name}`, model, [context])
+    if (opts.events) {
+      model.emit(name, context)
+    }
+    return context.result
+  }
 
-    schema.add({
-      [opts.deletedByField]: {
-        ...deletedByFieldType,
-        default: null,
-      },
-    } as any)
+  // Collection holding the deleted documents of a model in "archive" storage
+  const archiveName = (model: any) => opts.archiveCollection ?? `${model.collection.collectionName}_archive`
+  const archiveOf = (model: any) => model.db.collection(archiveName(model))
+
+  // Point a query at the archive collection, documents are still hydrated as the query's model
+  const useArchive = (query: any) => {
+    const archive = archiveOf(query.model)
+    query.mongooseCollection = archive
+    query.collection(archive)
+    return query
   }
 
-  // Override Model static methods to perform soft delete instead of hard delete
-  schema.statics.deleteOne = async function (filter: any, options?: any) {
-    const update = {
-      [opts.deletedField]: true,
-      ...(opts.deletedAt && { [opts.deletedAtField]: new Date() }),
+  // Plain copy of a loaded document as it is stored in the database
+  const rawDocument = (doc: any) =>
+    doc.toObject({ depopulate: true, getters: false, virtuals: false, transform: false })
+
+  // Run an action in a transaction, joining the caller's transaction when there is one
+  const transaction = async <T>(
+    model: any,
+    session: ClientSession | undefined,
+    action: (session: any) => Promise<T>,
+  ) => {
+    if (session?.inTransaction()) {
+      return await action(session)
     }
-    return this.updateOne(filter, { $set: update } as any, options)
+    if (session) {
+      return await session.withTransaction(() => action(session))
+    }
+    return (await model.db.transaction(action)) as T
   }
 
-  schema.statics.deleteMany = async function (filter: any, options?: any) {
-    const update = {
-      [opts.deletedField]: true,
-      ...(opts.deletedAt && { [opts.deletedAtField]: new Date() }),
+  // Move raw documents between a model's collection and its archive in one transaction
+  const moveDocuments = async (model: any, docs: any[], toArchive: boolean, session?: any) => {
+    if (!docs.length) {
+      return
     }
-    return this.updateMany(filter, { $set: update } as any, options)
+    const archive = archiveOf(model)
+    const [from, to] = toArchive ? [model.collection, archive] : [archive, model.collection]
+    await transaction(model, session ?? undefined, async (session) => {
+      await to.insertMany(docs, { session })
+      await from.deleteMany({ _id: { $in: docs.map((doc) => doc._id) } }, { session })
+    })
   }
 
-  schema.statics.findOneAndDelete = async function (filter: any, options?: any) {
-    const update = {
-      [opts.deletedField]: true,
-      ...(opts.deletedAt && { [opts.deletedAtField]: new Date() }),
+  // Turn every delete query into a soft delete. This covers Model statics (deleteOne, deleteMany,
+  // findOneAndDelete, findByIdAndDelete) as well as query chains like User.find().deleteMany()
+  const softDeleteMiddleware = async function (this: any) {
+    // Let explicit hard deletes through untouched
+    if (this.getOptions().forceDelete) {
+      delete this.getOptions().forceDelete
+      return
+    }
+
+    const {
+      update,
+      queryOptions: deleteOptions,
+      actor,
+      deleteReason,
+      deleteAt,
+    } = buildDeleteUpdate(this.model, this.getOptions())
+
+    const softDeleteTargets = async (queryOptions: any) => {
+      // Pin down which active documents are affected so hooks and children can follow.
+      // Already deleted documents are skipped to keep their original batch intact
+      const tracked = archiveStorage || opts.cascade.length > 0 || observed('softDelete', this.model)
+      let docs: any[] = []
+      if (tracked) {
+        const targets = this.model
+          .find(this.getFilter())
+          .active()
+          .sort(queryOptions.sort)
+          .session(queryOptions.session ?? null)
+          .lean()
+        if (this.op !== 'deleteMany') {
+          targets.limit(1)
+        }
+        // Archive storage moves whole documents, otherwise the ids are enough
+        if (!archiveStorage) {
+          targets.select('_id')
+        }
+        docs = await targets
+      }
+      const ids = docs.map((doc: any) => doc._id)
+
+      const context: ParanoiaHookContext = {
+        filter: this.getFilter(),
+        ids,
+        actor,
+        deleteReason,
+        deletionBatch: update[opts.deletionBatchField],
+        session: queryOptions.session,
+      }
+      return await runHooks('softDelete', this.model, context, async () => {
+        // Archive storage moves the matching documents out of the collection instead of flagging them
+        if (archiveStorage) {
+          await moveDocuments(
+            this.model,
+            docs.map((doc: any) => ({ ...doc, ...update })),
+            true,
+            queryOptions.session,
+          )
+          await cascadeDelete(this.model, ids, update, { ...queryOptions, deleteAt })
+
+          // findOneAndDelete resolves with the document as it was before the delete
+          if (this.op === 'findOneAndDelete') {
+            const [doc = null] = docs
+            return doc && !this._mongooseOptions.lean ? this.model.hydrate(doc) : doc
+          }
+          return { acknowledged: true, deletedCount: docs.length }
+        }
+
+        // Reuse the conditions, projection and lean/populate settings of the original query
+        const softDelete = this.model.find().merge(this)
+        softDelete.options = { ...queryOptions, ...batchOptions(update[opts.deletionBatchField]) }
+        if (tracked) {
+          softDelete.where({ _id: { $in: ids } })
+        }
+
+        let result
+        if (this.op === 'deleteOne') {
+          result = await softDelete.updateOne({}, { $set: update })
+        } else if (this.op === 'deleteMany') {
+          result = await softDelete.updateMany({}, { $set: update })
+        } else {
+          result = await softDelete.findOneAndUpdate({}, { $set: update }, { new: false })
+        }
+        await cascadeDelete(this.model, ids, update, { ...queryOptions, deleteAt })
+        return result
+      })
     }
-    return this.findOneAndUpdate(filter, { $set: update } as any, { ...options, new: false })
+
+    // Archive storage reads, moves and cascades in one transaction, so no write can slip in between
+    const result = archiveStorage
+      ? await transaction(this.model, deleteOptions.session, (session) =>
+          softDeleteTargets({ ...deleteOptions, session }),
+        )
+      : await softDeleteTargets(deleteOptions)
+
+    // Skip the hard delete and resolve the original query with the result
+    throw skipMiddlewareFunction(result)
   }
 
-  schema.statics.findByIdAndDelete = async function (id: any, options?: any) {
-    const update = {
-      [opts.deletedField]: true,
-      ...(opts.deletedAt && { [opts.deletedAtField]: new Date() }),
+  schema.pre('deleteOne', { query: true, document: false }, owned(softDeleteMiddleware))
+  schema.pre('deleteMany', { query: true, document: false }, owned(softDeleteMiddleware))
+  schema.pre('findOneAndDelete', { query: true, document: false }, owned(softDeleteMiddleware))
+
+  // Turn deleteOne/deleteMany operations of a bulkWrite into soft deletes and the restoreOne/restoreMany
+  // pseudo-operations into restores. Operations are replaced in place, the same way mongoose casts them
+  schema.pre(
+    'bulkWrite',
+    owned(function (this: any, ops: any[], options?: any) {
+      // The forceDelete option is Paranoia's, keep it away from the driver
+      const forceDelete = options?.forceDelete
+      delete options?.forceDelete
+
+      for (const [index, op] of ops.entries()) {
+        const [name] = Object.keys(op)
+        const deleting = name === 'deleteOne' || name === 'deleteMany'
+        if ((!deleting && name !== 'restoreOne' && name !== 'restoreMany') || !op[name]) {
+          continue
+        }
+
+        if (deleting && (op[name].forceDelete || forceDelete)) {
+          const { forceDelete: _forceDelete, ...operation } = op[name]
+          ops[index] = { [name]: operation }
+          continue
+        }
+
+        // Operations are cast with the options of the whole bulk write, so strict mode can't be lifted for one
+        if (!batched && op[name].deletionBatch !== undefined) {
+          throw new Error(`bulkWrite ${name} deletionBatch option requires the cascade option`)
+        }
+
+        // Children and the archive would need whole documents moved or updated around the single write
+        if (archiveStorage || opts.cascade.length) {
+          throw new Error(`bulkWrite ${name} is not supported with archive storage or cascade`)
+        }
+
+        const many = name.endsWith('Many')
+        if (deleting) {
+          const {
+            update,
+            queryOptions: { filter, ...operation },
+          } = buildDeleteUpdate(this, op[name])
+          ops[index] = {
+            [many ? 'updateMany' : 'updateOne']: {
+              ...operation,
+              filter: { ...filter, [state.field]: state.active },
+              update: { $set: update },
+            },
+          }
+        } else {
+          const {
+            update,
+            deletionBatch,
+            queryOptions: { filter, ...operation },
+          } = buildRestoreUpdate(op[name])
+          ops[index] = {
+            [many ? 'updateMany' : 'updateOne']: {
+              ...operation,
+              filter: buildRestoreFilter(filter, deletionBatch),
+              update: { $set: update },
+            },
+          }
+        }
+      }
+    }),
+  )
+
+  // Add static method to run hooks, audit and events around the soft deletes, restores and force deletes of a
+  // bulkWrite. The affected ids are looked up before the write, which the bulkWrite middleware above rewrites
+  schema.statics.bulkWrite = async function (this: any, ops: any[], options?: any) {
+    const write = () => Model.bulkWrite.call(this, ops, options)
+    if (archiveStorage || opts.cascade.length || !Array.isArray(ops)) {
+      return await write()
+    }
+
+    const session = options?.session ?? undefined
+    const operations: [string, ParanoiaHookContext][] = []
+    for (const op of ops) {
+      const [name] = Object.keys(op ?? {})
+      const deleting = name === 'deleteOne' || name === 'deleteMany'
+      if ((!deleting && name !== 'restoreOne' && name !== 'restoreMany') || !op[name]) {
+        continue
+      }
+      const forced = deleting && !!(op[name].forceDelete || options?.forceDelete)
+      const hook = forced ? 'forceDelete' : deleting ? 'softDelete' : 'restore'
+      if (!observed(hook, this)) {
+        continue
+      }
+
+      let targets
+      let context: ParanoiaHookContext
+      if (forced) {
+        targets = this.find(op[name].filter).withDeleted()
+        context = { filter: op[name].filter, ids: [], actor: opts.getActor(), session }
+      } else if (deleting) {
+        const {
+          update,
+          actor,
+          deleteReason,
+          queryOptions: { filter },
+        } = buildDeleteUpdate(this, op[name])
+        targets = this.find(filter).active()
+        context = { filter, ids: [], actor, deleteReason, deletionBatch: update[opts.deletionBatchField], session }
+      } else {
+        const {
+          actor,
+          deletionBatch,
+          queryOptions: { filter },
+        } = buildRestoreUpdate(op[name])
+        targets = this.find(buildRestoreFilter(filter, deletionBatch)).setOptions(batchOptions(deletionBatch))
+        context = { filter, ids: [], actor, deletionBatch, session }
+      }
+      if (!name.endsWith('Many')) {
+        targets.limit(1)
+      }
+      context.ids = (
+        await targets
+          .select('_id')
+          .session(session ?? null)
+          .lean()
+      ).map((doc: any) => doc._id)
+      operations.push([hook, context])
     }
-    return this.findByIdAndUpdate(id, { $set: update } as any, { ...options, new: false })
+
+    // Every operation's middleware wraps the one bulk write, pre hooks run in the order of the operations
+    const run = operations.reduceRight<() => Promise<any>>(
+      (action, [name, context]) =>
+        () =>
+          runHooks(name, this, context, action),
+      write,
+    )
+    return await run()
   }
 
   // Add query helpers for scopes
@@ -258,7 +1865,11 @@ export default function Paranoia<
       if (!opts.deletedField) {
         throw new Error('deletedField is required for active query helper')
       }
-      return this.where({ [opts.deletedField]: { $ne: true } })
+      // The collection itself only holds active records in archive storage
+      if (archiveStorage) {
+        return this
+      }
+      return this.where({ [state.field]: state.active })
     },
 
     /**
@@ -268,7 +1879,10 @@ export default function Paranoia<
       if (!opts.deletedField) {
         throw new Error('deletedField is required for deleted query helper')
       }
-      return this.where({ [opts.deletedField]: true })
+      if (archiveStorage) {
+        return useArchive(this)
+      }
+      return this.where({ [state.field]: state.deleted })
     },
 
     /**
@@ -281,12 +1895,76 @@ export default function Paranoia<
     },
   }
 
-  // Add default filtering based on activeArchive option
-  if (opts.activeArchive === 'Default') {
-    // Automatically filter out deleted records on all find queries
+  // Whether a query opted into deleted records with withDeleted()
+  const includesDeleted = (query: any) => {
+    // Honor the withDeleted query option, e.g. populate({ path: 'author', options: { withDeleted: true } })
+    if (query.getOptions().withDeleted) {
+      delete query.getOptions().withDeleted
+      query._includeDeleted = true
+    }
+    return !!query._includeDeleted
+  }
+
+  // activeArchive mode of a query or aggregation: its paranoia option, then the request's, then the schema's
+  const activeArchiveOf = (operation: any): ParanoiaActiveArchive =>
+    activeArchiveOption(operation) ?? getCurrentActiveArchive() ?? opts.activeArchive
+
+  // Refuse to modify soft-deleted documents, unless the change deletes or restores them
+  if (opts.readOnlyWhenDeleted) {
+    schema.pre(
+      'save',
+      owned(function (this: any, options?: any) {
+        if (this.isNew || options?.withDeleted || !this.get(opts.deletedField) || this.isModified(state.field)) {
+          return
+        }
+        // Subdocuments run save middleware whenever their parent is saved, even when untouched
+        if (this.$isSubdocument && !this.isModified()) {
+          return
+        }
+        throw new ParanoiaError('DOCUMENT_DELETED', 'Cannot modify a soft-deleted document')
+      }),
+    )
+
+    // Registered ahead of the default filter so it sees the caller's filter without the active condition
+    const updateGuard = async function (this: any) {
+      const activeArchive = activeArchiveOf(this)
+      if (includesDeleted(this) || activeArchive === 'All') {
+        return
+      }
+
+      const update = this.getUpdate()
+      if (update?.[state.field] !== undefined || update?.$set?.[state.field] !== undefined) {
+        return
+      }
+
+      const matches = (condition: any) =>
+        this.model
+          .exists({ $and: [this.getFilter(), { [state.field]: condition }] })
+          .withDeleted()
+          .session(this.getOptions().session ?? null)
+      if (!(await matches(state.deleted))) {
+        return
+      }
+      // Default mode leaves deleted rows out of the update, so only refuse one that can't reach an active row
+      if (activeArchive === 'Default' && (await matches(state.active))) {
+        return
+      }
+      throw new ParanoiaError('DOCUMENT_DELETED', 'Cannot update a soft-deleted document')
+    }
+
+    schema.pre('updateOne', { query: true, document: false }, owned(updateGuard))
+    schema.pre('updateMany', owned(updateGuard))
+    schema.pre('findOneAndUpdate', owned(updateGuard))
+    schema.pre('replaceOne', owned(updateGuard))
+    schema.pre('findOneAndReplace', owned(updateGuard))
+  }
+
+  // Add default filtering based on activeArchive option, archive storage has no deleted records to filter
+  if (!archiveStorage) {
+    // Automatically filter out deleted records on all find queries in Default mode
     const queryMiddleware = function (this: any) {
       // Skip if explicitly wanting deleted or all records
-      if (this._includeDeleted) {
+      if (includesDeleted(this) || activeArchiveOf(this) !== 'Default') {
         return
       }
 
@@ -297,67 +1975,676 @@ export default function Paranoia<
 
       // Add deleted: {$ne: true} to include documents without the field (backwards compatibility)
       const filter = this.getFilter()
-      if (filter[opts.deletedField] === undefined) {
-        this.where({ [opts.deletedField]: { $ne: true } })
+      if (filter[state.field] === undefined) {
+        this.where({ [state.field]: state.active })
       }
     }
 
-    schema.pre('find', queryMiddleware)
-    schema.pre('findOne', queryMiddleware)
-    schema.pre('findOneAndUpdate', queryMiddleware)
-    schema.pre('countDocuments', queryMiddleware)
+    schema.pre('find', owned(queryMiddleware))
+    schema.pre('findOne', owned(queryMiddleware))
+    schema.pre('findOneAndUpdate', owned(queryMiddleware))
+    schema.pre('findOneAndReplace', owned(queryMiddleware))
+    schema.pre('countDocuments', owned(queryMiddleware))
+    schema.pre('distinct', owned(queryMiddleware))
+    schema.pre('updateOne', { query: true, document: false }, owned(queryMiddleware))
+    schema.pre('updateMany', owned(queryMiddleware))
+    schema.pre('replaceOne', owned(queryMiddleware))
+
+    // estimatedDocumentCount() reads collection metadata and can't be filtered, so count active records instead
+    schema.pre(
+      'estimatedDocumentCount',
+      owned(async function (this: any) {
+        if (includesDeleted(this) || activeArchiveOf(this) !== 'Default') {
+          return
+        }
+
+        const count = await this.model
+          .countDocuments({ [state.field]: state.active })
+          .session(this.getOptions().session ?? null)
+        throw skipMiddlewareFunction(count)
+      }),
+    )
   }
 
-  // Add aggregate middleware to filter deleted records
-  if (opts.activeArchive === 'Default') {
-    schema.pre('aggregate', function (this: any) {
-      // Skip if explicitly wanting all records
-      if (this._includeDeleted) {
+  // withDeleted() and "All" mode read the union of the collection and its archive in archive storage
+  if (archiveStorage) {
+    const unionMiddleware = async function (this: any) {
+      if (!includesDeleted(this) && activeArchiveOf(this) !== 'All') {
         return
       }
 
+      const filter = this.cast(this.model)
+      const { sort, skip, limit, session } = this.getOptions()
+      const pipeline: any[] = [
+        { $match: filter },
+        { $unionWith: { coll: archiveName(this.model), pipeline: [{ $match: filter }] } },
+      ]
+
+      if (this.op === 'countDocuments') {
+        pipeline.push({ $count: 'count' })
+        const [result] = await this.model.aggregate(pipeline).session(session ?? null)
+        throw skipMiddlewareFunction(result?.count ?? 0)
+      }
+
+      if (sort && Object.keys(sort).length) {
+        pipeline.push({ $sort: sort })
+      }
+      if (skip) {
+        pipeline.push({ $skip: skip })
+      }
+      if (this.op === 'findOne' || limit) {
+        pipeline.push({ $limit: this.op === 'findOne' ? 1 : limit })
+      }
+      if (this._fields && Object.keys(this._fields).length) {
+        pipeline.push({ $project: this._fields })
+      }
+
+      let docs = await this.model.aggregate(pipeline).session(session ?? null)
+      if (!this._mongooseOptions.lean) {
+        docs = docs.map((doc: any) => this.model.hydrate(doc))
+      }
+      if (this._mongooseOptions.populate) {
+        docs = await this.model.populate(docs, Object.values(this._mongooseOptions.populate))
+      }
+      throw skipMiddlewareFunction(this.op === 'findOne' ? (docs[0] ?? null) : docs)
+    }
+
+    schema.pre('find', owned(unionMiddleware))
+    schema.pre('findOne', owned(unionMiddleware))
+    schema.pre('countDocuments', owned(unionMiddleware))
+  }
+
+  // Add aggregate middleware to filter deleted records
+  schema.pre(
+    'aggregate',
+    owned(function (this: any) {
       // Ensure deletedField exists
       if (!opts.deletedField) {
         return
       }
 
-      // Add $match stage at the beginning to filter deleted records
       const pipeline = this.pipeline()
+      const firstStageName = Object.keys(pipeline[0] ?? {})[0] ?? ''
+      if (unfilterableStages.includes(firstStageName)) {
+        return
+      }
 
-      // Check if first stage already filters deleted field
-      const firstStage = pipeline[0]
-      const hasDeletedFilter = firstStage?.$match?.[opts.deletedField] !== undefined
+      // Archive storage reads deleted records from the archive collection instead of filtering them
+      if (archiveStorage) {
+        const union = this._onlyDeleted || this._includeDeleted || activeArchiveOf(this) === 'All'
+        if (leadingStages.includes(firstStageName) || !union) {
+          return
+        }
+        const unionWith = { $unionWith: { coll: archiveName(this.model()) } }
+        pipeline.unshift(...(this._onlyDeleted ? [{ $match: { $expr: false } }, unionWith] : [unionWith]))
+        return
+      }
+
+      // onlyDeleted() applies in every mode, the active filter only in Default mode
+      let condition
+      if (this._onlyDeleted) {
+        condition = state.deleted
+      } else if (!this._includeDeleted && activeArchiveOf(this) === 'Default') {
+        condition = state.active
+      } else {
+        return
+      }
+
+      // Add $match stage at the beginning, or right after a stage that has to stay first
+      const index = leadingStages.includes(firstStageName) ? 1 : 0
+
+      // Check if that stage already filters deleted field
+      const hasDeletedFilter = pipeline[index]?.$match?.[state.field] !== undefined
 
       if (!hasDeletedFilter) {
-        pipeline.unshift({ $match: { [opts.deletedField]: { $ne: true } } })
+        pipeline.splice(index, 0, { $match: { [state.field]: condition } })
+      }
+    }),
+  )
+
+  // Exclude deleted rows of joined paranoid collections from $lookup stages
+  if (opts.lookup) {
+    schema.pre(
+      'aggregate',
+      owned(function (this: any) {
+        // Skip if explicitly wanting all records
+        if (this._includeDeleted) {
+          return
+        }
+
+        excludeDeletedFromLookups(this.pipeline(), this.model().db, activeArchiveOption(this))
+      }),
+    )
+  }
+
+  // Session of an operation called on a loaded document, the caller's wins over the one it was loaded with
+  const documentSession = (doc: any, options?: { session?: ClientSession }): ClientSession | undefined =>
+    options?.session ?? doc.$session() ?? undefined
+
+  // Hook context for an operation called on a loaded document
+  const documentContext = (doc: any, context: Partial<ParanoiaHookContext> = {}): ParanoiaHookContext => ({
+    filter: { _id: doc._id },
+    ids: [doc._id],
+    session: documentSession(doc),
+    document: doc,
+    ...context,
+  })
+
+  // Add instance method to soft delete a loaded document
+  schema.methods.softDelete = async function (this: any, options?: ParanoiaDeleteOptions) {
+    const { update, queryOptions, actor, deleteReason, deleteAt } = buildDeleteUpdate(this.constructor, options)
+    const session = documentSession(this, queryOptions)
+    const setOptions = batchOptions(update[opts.deletionBatchField])
+
+    // Subdocuments are flagged in place and stored by saving their parent
+    if (this.$isSubdocument) {
+      this.set(update, undefined, setOptions)
+      await this.ownerDocument().save({ ...(session && { session }) })
+      return this
+    }
+
+    const context = documentContext(this, {
+      actor,
+      deleteReason,
+      deletionBatch: update[opts.deletionBatchField],
+      session,
+    })
+    return await runHooks('softDelete', this.constructor, context, async () => {
+      this.set(update, undefined, setOptions)
+      if (archiveStorage) {
+        // The move and the children's deletion commit together
+        await transaction(this.constructor, session, async (session) => {
+          await moveDocuments(this.constructor, [rawDocument(this)], true, session)
+          await cascadeDelete(this.constructor, [this._id], update, { session, deleteAt })
+        })
+        return this
       }
+      // Deleting again records the new actor or reason even when the document is read-only while deleted
+      const deleted = await this.save({ withDeleted: true, ...(session && { session }) })
+      await cascadeDelete(this.constructor, [this._id], update, { session, deleteAt })
+      return deleted
     })
   }
 
+  // Route document deleteOne() through softDelete so the loaded document reflects the new state
+  schema.methods.deleteOne = async function (this: any, options?: ParanoiaDeleteOptions) {
+    return await this.softDelete(options)
+  }
+
+  // Add instance method to permanently remove a document
+  schema.methods.forceDelete = async function (this: any, options?: Record<string, any>) {
+    const session = documentSession(this, options)
+    if (this.$isSubdocument) {
+      this.$__removeFromParent()
+      await this.ownerDocument().save({ ...(session && { session }) })
+      return this
+    }
+
+    const context = documentContext(this, { actor: opts.getActor(), session })
+    await runHooks('forceDelete', this.constructor, context, () =>
+      hardDelete(this.constructor, { _id: this._id }, { ...options, ...(session && { session }) }, false),
+    )
+    this.$isDeleted(true)
+    return this
+  }
+
+  // Add instance method to check whether a document can still be restored
+  schema.methods.canRestore = function (this: any) {
+    const deletedAt = opts.deletedAt ? this.get(opts.deletedAtField) : null
+    if (!this.get(opts.deletedField) && !(opts.scheduled && deletedAt != null)) {
+      return false
+    }
+    return opts.undoWindow === undefined || deletedAt >= undoDeadline()
+  }
+
   // Add instance method to restore soft-deleted documents
-  schema.methods.restore = async function (this: any) {
-    this[opts.deletedField] = false
-    if (opts.deletedAt) {
-      this[opts.deletedAtField] = null
+  schema.methods.restore = async function (this: any, options?: ParanoiaRestoreOptions) {
+    const { update, queryOptions, actor } = buildRestoreUpdate(options)
+    const session = documentSession(this, queryOptions)
+    const deletedAt = opts.deletedAt ? this.get(opts.deletedAtField) : null
+    if (opts.undoWindow !== undefined && deletedAt && deletedAt < undoDeadline()) {
+      throw new ParanoiaError('UNDO_WINDOW_EXPIRED', 'Cannot restore a document after its undo window has expired')
     }
-    if (opts.deletedBy) {
-      this[opts.deletedByField] = null
+    const batch = this.get(opts.deletionBatchField) ?? undefined
+    if (batch !== undefined) {
+      update[opts.deletionBatchField] = null
+    }
+    const setOptions = batchOptions(batch)
+
+    if (this.$isSubdocument) {
+      this.set(update, undefined, setOptions)
+      await this.ownerDocument().save({ ...(session && { session }) })
+      return this
     }
-    return await this.save()
+
+    const context = documentContext(this, { actor, deletionBatch: batch, session })
+    return await runHooks('restore', this.constructor, context, async () => {
+      this.set(update, undefined, setOptions)
+      if (archiveStorage) {
+        await transaction(this.constructor, session, async (session) => {
+          await moveDocuments(this.constructor, [rawDocument(this)], false, session)
+          await cascadeRestore(this.constructor, [this._id], [batch], update, { session })
+        })
+        return this
+      }
+      const restored = await this.save({ withDeleted: true, ...(session && { session }) })
+      await cascadeRestore(this.constructor, [this._id], [batch], update, { session })
+      return restored
+    })
   }
 
   // Add static method to restore by query
-  schema.statics.restore = async function (this: any, filter: any) {
-    const update: any = {
-      [opts.deletedField]: false,
+  schema.statics.restore = async function (this: any, filter: any, options?: ParanoiaRestoreOptions) {
+    const { update, queryOptions: restoreOptions, deletionBatch, actor } = buildRestoreUpdate(options)
+    const restoreFilter = buildRestoreFilter(filter, deletionBatch)
+
+    const restoreTargets = async (queryOptions: any) => {
+      // Remember which documents and batches are being restored so hooks and children can follow.
+      // Archive storage moves whole documents, otherwise the ids and batches are enough
+      let restoring: any[] = []
+      if (archiveStorage) {
+        restoring = await this.find(restoreFilter)
+          .deleted()
+          .setOptions(batchOptions(deletionBatch))
+          .session(queryOptions.session ?? null)
+          .lean()
+      } else if (opts.cascade.length || observed('restore', this)) {
+        restoring = await this.find(restoreFilter)
+          .select(`_id ${opts.deletionBatchField}`)
+          .setOptions(batchOptions(deletionBatch))
+          .session(queryOptions.session ?? null)
+          .lean()
+      }
+      const ids = restoring.map((doc: any) => doc._id)
+
+      const context: ParanoiaHookContext = {
+        filter,
+        ids,
+        actor,
+        deletionBatch,
+        session: queryOptions.session,
+      }
+      return await runHooks('restore', this, context, async () => {
+        let result
+        if (archiveStorage) {
+          await moveDocuments(
+            this,
+            restoring.map((doc: any) => ({ ...doc, ...update })),
+            false,
+            queryOptions.session,
+          )
+          result = {
+            acknowledged: true,
+            matchedCount: restoring.length,
+            modifiedCount: restoring.length,
+            upsertedCount: 0,
+            upsertedId: null,
+          }
+        } else {
+          result = await this.updateMany(
+            restoreFilter,
+            { $set: update },
+            { ...queryOptions, ...batchOptions(deletionBatch) },
+          )
+        }
+        await cascadeRestore(
+          this,
+          ids,
+          restoring.map((doc: any) => doc[opts.deletionBatchField]),
+          update,
+          queryOptions,
+        )
+        return result
+      })
+    }
+
+    // In archive storage the archive is read, moved back and the children restored within a single transaction
+    return archiveStorage
+      ? await transaction(this, restoreOptions.session, (session) => restoreTargets({ ...restoreOptions, session }))
+      : await restoreTargets(restoreOptions)
+  }
+
+  // Permanently remove documents, in archive storage from the archive as well
+  const hardDelete = async (model: any, filter: any, options: Record<string, any> | undefined, many: boolean) => {
+    const op = many ? 'deleteMany' : 'deleteOne'
+    const result = await model[op](filter, { ...options, forceDelete: true })
+    if (!archiveStorage || (!many && result.deletedCount)) {
+      return result
+    }
+
+    const archiveQuery = model
+      .find(filter)
+      .deleted()
+      .setOptions({ ...options, forceDelete: true })
+    if (!many) {
+      return await archiveQuery.deleteOne()
+    }
+    result.deletedCount += (await archiveQuery.deleteMany()).deletedCount
+    return result
+  }
+
+  // Hook context for a forceDeleteOne/forceDeleteMany call
+  const forceDeleteContext = async (
+    model: any,
+    filter: any,
+    options: Record<string, any> | undefined,
+    many: boolean,
+  ) => {
+    const context: ParanoiaHookContext = { filter, ids: [], actor: opts.getActor(), session: options?.session }
+    if (observed('forceDelete', model)) {
+      const targets = model
+        .find(filter)
+        .withDeleted()
+        .select('_id')
+        .session(options?.session ?? null)
+        .lean()
+      if (!many) {
+        targets.limit(1)
+      }
+      context.ids = (await targets).map((doc: any) => doc._id)
+    }
+    return context
+  }
+
+  // Add static methods to permanently remove documents
+  schema.statics.forceDeleteOne = async function (this: any, filter: any, options?: Record<string, any>) {
+    const context = await forceDeleteContext(this, filter, options, false)
+    return await runHooks('forceDelete', this, context, () => hardDelete(this, filter, options, false))
+  }
+
+  schema.statics.forceDeleteMany = async function (this: any, filter: any, options?: Record<string, any>) {
+    const context = await forceDeleteContext(this, filter, options, true)
+    return await runHooks('forceDelete', this, context, () => hardDelete(this, filter, options, true))
+  }
+
+  // Add static method to permanently remove soft-deleted documents
+  schema.statics.purgeDeleted = async function (this: any, options: ParanoiaPurgeOptions = {}) {
+    const { olderThan, ...queryOptions } = options
+    const filter: any = { [state.field]: state.deleted }
+    if (olderThan) {
+      if (!opts.deletedAt) {
+        throw new Error('deletedAt is required for purgeDeleted olderThan option')
+      }
+      filter[opts.deletedAtField] = { $lt: olderThan }
+    }
+
+    return await this.forceDeleteMany(filter, queryOptions)
+  }
+
+  // Add static method to read the audit trail of a document
+  schema.statics.deletionHistory = async function (this: any, id: any, options: { session?: ClientSession } = {}) {
+    if (!opts.audit) {
+      throw new Error('audit option is required for deletionHistory')
+    }
+
+    if (opts.audit === 'collection') {
+      return await this.db
+        .collection(opts.auditCollection)
+        .find({ model: this.modelName, documentId: this.schema.path('_id').cast(id) }, { session: options.session })
+        .project({ _id: 0, model: 0, documentId: 0 })
+        .sort({ timestamp: 1 })
+        .toArray()
+    }
+
+    const doc = await this.findById(id)
+      .withDeleted()
+      .select(opts.auditField)
+      .session(options.session ?? null)
+      .lean()
+    return doc?.[opts.auditField] ?? []
+  }
+
+  // Add static method to page through soft-deleted documents
+  schema.statics.trash = async function (this: any, options: ParanoiaTrashOptions = {}) {
+    const { page = 1, limit = 20, deletedBy, since, until, sort, session } = options
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error('trash page option must be a positive integer')
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('trash limit option must be a positive integer')
     }
+    const filter: any = {}
+    if (deletedBy !== undefined) {
+      if (!opts.deletedBy) {
+        throw new Error('deletedBy is required for trash deletedBy option')
+      }
+      filter[opts.deletedByField] = deletedBy
+    }
+    if (since || until) {
+      if (!opts.deletedAt) {
+        throw new Error('deletedAt is required for trash since/until options')
+      }
+      filter[opts.deletedAtField] = { ...(since && { $gte: since }), ...(until && { $lte: until }) }
+    }
+
+    // Run one after the other, a session does not support concurrent operations
+    const docs = await this.find(filter)
+      .deleted()
+      .sort(sort ?? (opts.deletedAt ? { [opts.deletedAtField]: -1 } : { _id: -1 }))
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .session(session ?? null)
+    const total = await this.countDocuments(filter)
+      .deleted()
+      .session(session ?? null)
+    return { docs, total, page, limit, pages: Math.ceil(total / limit) }
+  }
+
+  // Add static method to summarize soft-deleted documents
+  schema.statics.trashStats = async function (this: any, options: { session?: ClientSession } = {}) {
+    const group = (key: any, as: string) => [
+      { $group: { _id: key, count: { $sum: 1 } } },
+      { $project: { _id: 0, [as]: '$_id', count: 1 } },
+    ]
+
+    const facets: Record<string, any[]> = { total: [{ $count: 'count' }] }
     if (opts.deletedAt) {
-      update[opts.deletedAtField] = null
+      facets.byDay = [
+        ...group({ $dateToString: { format: '%Y-%m-%d', date: `$${opts.deletedAtField}` } }, 'day'),
+        { $sort: { day: 1 } },
+      ]
     }
     if (opts.deletedBy) {
-      update[opts.deletedByField] = null
+      facets.byActor = [...group(`$${opts.deletedByField}`, 'actor'), { $sort: { count: -1 } }]
+    }
+
+    const [stats] = await this.aggregate([{ $facet: facets }])
+      .onlyDeleted()
+      .session(options.session ?? null)
+    return { total: stats?.total[0]?.count ?? 0, byDay: stats?.byDay ?? [], byActor: stats?.byActor ?? [] }
+  }
+
+  // Add static method to watch changes classified into soft deletes, restores and other writes.
+  // The classification is an $addFields stage, so resume tokens stay those of the underlying stream
+  schema.statics.watchParanoia = function (this: any, pipeline: any[] = [], options?: Record<string, any>) {
+    if (archiveStorage) {
+      throw new Error('watchParanoia is not supported with archive storage')
+    }
+
+    const is = (operationType: string) => ({ $eq: ['$operationType', operationType] })
+    const field = (input: string) => ({ $getField: { field: state.field, input } })
+    const isDeleted = (value: any) =>
+      opts.timestampOnly ? { $ne: [{ $ifNull: [value, null] }, null] } : { $eq: [value, true] }
+    const updated = field('$updateDescription.updatedFields')
+    const replaced = field('$fullDocument')
+    // Only present when the collection records pre-images and the stream asks for them
+    const before = field('$fullDocumentBeforeChange')
+    const paranoiaOperation = {
+      $switch: {
+        branches: [
+          { case: is('insert'), then: 'insert' },
+          { case: is('delete'), then: 'hardDelete' },
+          { case: { $and: [is('update'), { $eq: [{ $type: updated }, 'missing'] }] }, then: 'update' },
+          { case: { $and: [is('update'), isDeleted(updated)] }, then: 'softDelete' },
+          { case: is('update'), then: 'restore' },
+          // A replacement is compared with its pre-image, or with an active document without one
+          { case: { $and: [is('replace'), isDeleted(replaced), { $not: [isDeleted(before)] }] }, then: 'softDelete' },
+          { case: { $and: [is('replace'), { $not: [isDeleted(replaced)] }, isDeleted(before)] }, then: 'restore' },
+          { case: is('replace'), then: 'update' },
+        ],
+        default: '$operationType',
+      },
+    }
+
+    return this.watch([{ $addFields: { paranoiaOperation } }, ...pipeline], options)
+  }
+
+  // Add static method to soft delete documents and their cascades atomically
+  schema.statics.softDeleteInTransaction = async function (
+    this: any,
+    filter: any,
+    options: ParanoiaDeleteOptions = {},
+  ) {
+    const result: any = await transaction(this, options.session, (session) =>
+      this.deleteMany(filter, { ...options, session }),
+    )
+    // Flag storage resolves delete queries with the update result, report the flagged documents as deleted
+    return 'deletedCount' in result ? result : { acknowledged: result.acknowledged, deletedCount: result.modifiedCount }
+  }
+}
+
+/**
+ * Options for migrateParanoia
+ */
+export type ParanoiaMigrateOptions = {
+  /**
+   * Number of documents updated per batch
+   * @default 1000
+   */
+  batchSize?: number
+
+  /**
+   * Previous names of the deleted and deletedAt fields, renamed to the names the plugin uses now
+   */
+  renameFrom?: {
+    deletedField?: string
+    deletedAtField?: string
+  }
+
+  /**
+   * Called after every backfilled batch
+   */
+  onProgress?: (progress: ParanoiaMigrateProgress) => void
+}
+
+/**
+ * Progress reported by migrateParanoia
+ */
+export type ParanoiaMigrateProgress = {
+  /**
+   * Number of documents backfilled so far
+   */
+  processed: number
+
+  /**
+   * Number of documents that were missing a field when the backfill started
+   */
+  total: number
+}
+
+/**
+ * Prepare an existing collection for the plugin: rename fields from their previous names and backfill
+ * deletedField: false / deletedAtField: null on documents missing them, one batch at a time
+ * Once it has run, enable strictFilter so the active filter can use the deletedField index
+ *
+ * @example
+ * ```typescript
+ * await migrateParanoia(User, {
+ *   renameFrom: { deletedAtField: 'removedAt' },
+ *   onProgress: ({ processed, total }) => console.log(`${processed}/${total}`),
+ * })
+ * ```
+ */
+export async function migrateParanoia(
+  model: Model<any>,
+  options: ParanoiaMigrateOptions = {},
+): Promise<{ renamed: number; backfilled: number }> {
+  const opts = paranoiaOptionsOf(model.schema)
+  if (!opts) {
+    throw new Error('Paranoia plugin is not applied to this model')
+  }
+  const { batchSize = 1000, renameFrom = {}, onProgress } = options
+
+  // Defaults stored on documents that predate the plugin
+  const defaults: Record<string, any> = {}
+  if (!opts.timestampOnly) {
+    defaults[opts.deletedField!] = false
+  }
+  if (opts.deletedAt) {
+    defaults[opts.deletedAtField!] = null
+  }
+
+  let renamed = 0
+  for (const key of ['deletedField', 'deletedAtField'] as const) {
+    const from = renameFrom[key]
+    if (!from || from === opts[key] || !(opts[key]! in defaults)) {
+      continue
+    }
+    const result = await model.collection.updateMany({ [from]: { $exists: true } }, { $rename: { [from]: opts[key]! } })
+    renamed += result.modifiedCount
+  }
+
+  const missing = {
+    $or: Object.keys(defaults).map((field) => ({ [field]: { $exists: false } })),
+  }
+  const total = await model.collection.countDocuments(missing)
+
+  let backfilled = 0
+  while (backfilled < total) {
+    const batch = await model.collection.find(missing).project({ _id: 1 }).limit(batchSize).toArray()
+    if (!batch.length) {
+      break
+    }
+
+    const ids = batch.map((doc) => doc._id)
+    for (const [field, value] of Object.entries(defaults)) {
+      await model.collection.updateMany(
+        { _id: { $in: ids }, [field]: { $exists: false } },
+        { $set: { [field]: value } },
+      )
     }
 
-    return await this.updateMany({ ...filter, [opts.deletedField]: true }, { $set: update })
+    backfilled += batch.length
+    onProgress?.({ processed: backfilled, total })
+  }
+
+  return { renamed, backfilled }
+}
+
+/**
+ * Replace plain unique indexes in the database with the partial ones declared through the uniqueActive option
+ * Use this once on collections that already existed before uniqueActive was enabled
+ *
+ * @example
+ * ```typescript
+ * const { dropped } = await migrateUniqueIndexes(User)
+ * ```
+ */
+export async function migrateUniqueIndexes(model: Model<any>): Promise<{ dropped: string[] }> {
+  const opts = paranoiaOptionsOf(model.schema)
+  if (!opts) {
+    throw new Error('Paranoia plugin is not applied to this model')
+  }
+
+  const state = deletionState(opts)
+  const activeIndex = JSON.stringify(state.activeIndex)
+  const activeKeys = model.schema
+    .indexes()
+    .filter(
+      ([, options]: [any, any]) =>
+        options.unique && JSON.stringify(options.partialFilterExpression?.[state.field]) === activeIndex,
+    )
+    .map(([fields]: [any, any]) => JSON.stringify(fields))
+
+  const dropped: string[] = []
+  for (const index of await model.collection.indexes()) {
+    if (index.unique && !index.partialFilterExpression && activeKeys.includes(JSON.stringify(index.key))) {
+      await model.collection.dropIndex(index.name!)
+      dropped.push(index.name!)
+    }
   }
+
+  await model.createIndexes()
+  return { dropped }
 }